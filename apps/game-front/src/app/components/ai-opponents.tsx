@@ -0,0 +1,238 @@
+/**
+ * AI opponents hosted by this client
+ * Each AI car runs the same physics as the player and joins the room with
+ * its own connection, so everyone else sees it as a regular player flagged as a bot.
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import usePartySocket from "partysocket/react";
+import throttle from "lodash.throttle";
+import * as THREE from "three";
+import { create } from "zustand";
+import {
+  CAR_COLORS,
+  type InitUserActionType,
+  type PresenceType,
+  type ServerMessage,
+  type UpdatePresenceActionType,
+} from "game-schemas";
+import { AiDriver, type AiDifficulty } from "@/lib/ai-driver";
+import { RacingLine } from "@/lib/racing-line";
+import { packMessage } from "@/lib/pack";
+import { onPartyMessage } from "@/lib/party-messages";
+import { getRoomPassword } from "@/lib/rooms";
+import {
+  CarPhysics,
+  createCollisionAction,
+  createControllerVectors,
+  receiveCarCollision,
+} from "./vehicle/controller";
+import { remoteCarsRef } from "./other-players";
+import { serverTime } from "./server-clock";
+import { useTrackDefinition } from "./track";
+import { useParty } from "./use-party";
+
+export const MAX_AI_OPPONENTS = 7;
+
+const AI_UPDATE_FPS = 15;
+
+interface AiOpponentsStore {
+  count: number;
+  difficulty: AiDifficulty;
+}
+
+export const useAiOpponents = create<AiOpponentsStore>(() => ({
+  count: 0,
+  difficulty: "medium",
+}));
+
+/** Ids of the AI cars hosted here, they are rendered locally instead of as remote players */
+export const localBotIds = new Set<string>();
+
+const _position = new THREE.Vector3();
+const _previousPosition = new THREE.Vector3();
+const _rotation = new THREE.Quaternion();
+const _forward = new THREE.Vector3();
+
+function getBotProfile(index: number) {
+  return {
+    name: `AI ${index + 1}`,
+    color: CAR_COLORS[(index + 1) % CAR_COLORS.length],
+    emoji: "🤖",
+    bot: true,
+  };
+}
+
+interface AiOpponentProps {
+  roomId: string;
+  id: string;
+  index: number;
+  line: RacingLine;
+}
+
+function AiOpponent({ roomId, id, index, line }: AiOpponentProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const difficulty = useAiOpponents((s) => s.difficulty);
+  const spawn = useTrackDefinition(
+    (s) => s.definition.spawns[s.definition.spawns.length - 1 - (index % s.definition.spawns.length)]
+  );
+
+  const vectors = useMemo(() => createControllerVectors(), []);
+  const driver = useMemo(
+    () => new AiDriver(line, useAiOpponents.getState().difficulty),
+    [line]
+  );
+  driver.difficulty = difficulty;
+
+  const socket = usePartySocket({
+    host: process.env.NEXT_PUBLIC_PARTY_SOCKET_HOST,
+    room: roomId,
+    id,
+    query: () => ({ password: getRoomPassword(roomId) }),
+  });
+
+  useEffect(() => {
+    localBotIds.add(id);
+    return () => {
+      localBotIds.delete(id);
+    };
+  }, [id]);
+
+  useEffect(() => {
+    if (!groupRef.current) return;
+    remoteCarsRef.current[id] = groupRef.current;
+    return () => {
+      delete remoteCarsRef.current[id];
+    };
+  }, [id]);
+
+  const presence = useMemo<PresenceType>(
+    () => ({
+      ...getBotProfile(index),
+      pos: { x: 0, y: 0, z: 0 },
+      vel: { x: 0, y: 0, z: 0 },
+      rot: { x: 0, y: 0, z: 0, w: 1 },
+      wheel: { x: 0, y: 0 },
+      timestamp: 0,
+    }),
+    [index]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    // every new connection has to join again
+    const openHandler = () => {
+      const initUser: InitUserActionType = {
+        type: "init-user",
+        payload: { ...presence, timestamp: serverTime() },
+      };
+      socket.send(packMessage(initUser));
+    };
+
+    const messageHandler = (message: ServerMessage) => {
+      switch (message.type) {
+        case "server-correction": {
+          const { pos } = message.payload.presence;
+          if (pos) vectors.teleport.current = pos;
+          break;
+        }
+        case "car-collision":
+          receiveCarCollision(vectors, id, message.payload);
+          break;
+      }
+    };
+
+    if (socket.readyState === WebSocket.OPEN) openHandler();
+    socket.addEventListener("open", openHandler, { signal: controller.signal });
+    onPartyMessage(socket, ["server-correction", "car-collision"], messageHandler, { signal: controller.signal });
+
+    return () => {
+      controller.abort();
+    };
+  }, [socket, presence, vectors, id]);
+
+  const sendPresence = useMemo(
+    () =>
+      throttle(() => {
+        const { name: _name, color: _color, emoji: _emoji, bot: _bot, ...movement } = presence;
+        const update: UpdatePresenceActionType = {
+          type: "update-presence",
+          payload: { ...movement, timestamp: serverTime() },
+        };
+        socket.send(packMessage(update));
+      }, 1000 / AI_UPDATE_FPS),
+    [socket, presence]
+  );
+
+  useEffect(() => () => sendPresence.cancel(), [sendPresence]);
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group || delta === 0) return;
+
+    _previousPosition.set(presence.pos.x, presence.pos.y, presence.pos.z);
+    group.getWorldPosition(_position);
+    group.getWorldQuaternion(_rotation);
+    const speed = _position.distanceTo(_previousPosition) / delta;
+
+    _forward.set(0, 0, -1).applyQuaternion(_rotation);
+    const forwardLength = Math.hypot(_forward.x, _forward.z) || 1;
+    driver.update(
+      _position,
+      { x: _forward.x / forwardLength, z: _forward.z / forwardLength },
+      speed,
+      delta,
+      vectors
+    );
+
+    presence.vel.x = (_position.x - presence.pos.x) / delta;
+    presence.vel.y = (_position.y - presence.pos.y) / delta;
+    presence.vel.z = (_position.z - presence.pos.z) / delta;
+    presence.pos.x = _position.x;
+    presence.pos.y = _position.y;
+    presence.pos.z = _position.z;
+    presence.rot.x = _rotation.x;
+    presence.rot.y = _rotation.y;
+    presence.rot.z = _rotation.z;
+    presence.rot.w = _rotation.w;
+    presence.wheel.x = vectors.wheelRotation.current;
+    presence.wheel.y = vectors.visibleSteering.current;
+    presence.turbo = vectors.turbo.current;
+
+    if (socket.readyState === WebSocket.OPEN) sendPresence();
+  });
+
+  return (
+    <CarPhysics
+      ref={groupRef}
+      vectors={vectors}
+      spawn={spawn}
+      color={getBotProfile(index).color}
+      player={false}
+      onCarCollision={(otherId) => socket.send(packMessage(createCollisionAction(otherId)))}
+    />
+  );
+}
+
+export function AiOpponents({ roomId }: { roomId: string }) {
+  const count = useAiOpponents((s) => s.count);
+  const definition = useTrackDefinition((s) => s.definition);
+  const line = useMemo(() => new RacingLine(definition), [definition]);
+  const hostId = useParty().id;
+
+  return (
+    <>
+      {Array.from({ length: Math.min(count, MAX_AI_OPPONENTS) }, (_, index) => (
+        <AiOpponent
+          key={index}
+          roomId={roomId}
+          id={`${hostId}-ai-${index}`}
+          index={index}
+          line={line}
+        />
+      ))}
+    </>
+  );
+}
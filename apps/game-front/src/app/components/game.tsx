@@ -7,7 +7,7 @@ import {
   KeyboardControlsEntry,
   PerspectiveCamera,
 } from "@react-three/drei";
-import { memo, Suspense, useEffect } from "react";
+import { memo, Suspense, useEffect, useRef } from "react";
 import usePartySocket from "partysocket/react";
 import { Player } from "./player";
 import { MoQPartyProvider } from "./moq-party-provider";
@@ -15,13 +15,31 @@ import { MoQDebugOverlay3D } from "./moq-debug-overlay-3d";
 import { OtherPlayers } from "./other-players";
 import { Physics } from "@react-three/rapier";
 import { Ground } from "./ground";
-import { InitUserActionType } from "game-schemas";
+import {
+  InitUserActionType,
+  PRESENCE_PROTOCOL_VERSION,
+  ProfileType,
+  RoomErrorMessageType,
+  ServerMessage,
+  UpdatePresenceActionType,
+} from "game-schemas";
 import { packMessage } from "@/lib/pack";
+import { onPartyMessage } from "@/lib/party-messages";
+import { getRoomPassword, getRoomSession, setRoomSession } from "@/lib/rooms";
 import { Track } from "./track";
 import { CarBodyInstancer } from "./vehicle/body";
 import { GradientBackground } from "./gradient";
 import { create } from "zustand";
 import { WasdControls } from "./wasd-controls";
+import { RaceStatus } from "./race-status";
+import { ServerClock, serverTime } from "./server-clock";
+import { INTERPOLATION_DELAY_MS } from "@/lib/snapshot-buffer";
+import { useProfile } from "./profile";
+import { NameTagsTracker } from "./name-tags";
+import { Ghost } from "./ghost";
+import { LeaderboardListener } from "./leaderboard";
+import { AiOpponents } from "./ai-opponents";
+import { GamepadControls } from "./gamepad-controls";
 
 export enum GameControls {
   forward = "forward",
@@ -41,23 +59,42 @@ const controlMap = [
 
 interface GameStore {
   debug: boolean;
+  /** How far in the past remote players are rendered, in ms */
+  interpolationDelay: number;
+  /** Why the server rejected the connection, the game stops reconnecting */
+  roomError: RoomErrorMessageType["payload"]["reason"] | null;
 }
 
 export const useGame = create<GameStore>(() => ({
   debug: false,
+  interpolationDelay: INTERPOLATION_DELAY_MS,
+  roomError: null,
 }));
 
-function Game({ roomId }: { roomId: string }) {
+interface GameProps {
+  roomId: string;
+  profile: ProfileType;
+}
+
+function Game({ roomId, profile }: GameProps) {
   const debug = useGame((s) => s.debug);
 
   const socket = usePartySocket({
     host: process.env.NEXT_PUBLIC_PARTY_SOCKET_HOST,
     room: roomId,
+    // read on every reconnection, the password can be entered again
+    query: () => ({ password: getRoomPassword(roomId) }),
   });
 
   // Get player ID from socket
   const playerId = socket.id;
-  const playerName = "Player-" + playerId.slice(0, 4);
+
+  // init-user is sent on every connection, with the profile at that time
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
+  // resumes our car when the connection drops
+  const sessionRef = useRef<string | null>(null);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -65,6 +102,9 @@ function Game({ roomId }: { roomId: string }) {
 
     const debug = urlParams.has("debug");
     if (debug) useGame.setState({ debug: true });
+
+    const interpolationDelay = Number(urlParams.get("interpolation-delay"));
+    if (interpolationDelay > 0) useGame.setState({ interpolationDelay });
   }, []);
 
   // Check if MoQ should be enabled (via URL param or env var)
@@ -80,36 +120,96 @@ function Game({ roomId }: { roomId: string }) {
   const showMoQDebug = useMoQ; // Show debug when MoQ is enabled
 
   useEffect(() => {
-    const initPlayer: InitUserActionType = {
-      type: "init-user",
-      payload: {
-        name: "John Doe",
-        pos: {
-          x: 0,
-          y: 0,
-          z: 0,
-        },
-        rot: {
-          x: 0,
-          y: 0,
-          z: 0,
-          w: 1,
-        },
-        wheel: {
-          x: 0,
-          y: 0,
-        },
-        vel: {
-          x: 0,
-          y: 0,
-          z: 0,
+    const controller = new AbortController();
+
+    const openHandler = () => {
+      const initPlayer: InitUserActionType = {
+        type: "init-user",
+        payload: {
+          ...profileRef.current,
+          pos: {
+            x: 0,
+            y: 0,
+            z: 0,
+          },
+          rot: {
+            x: 0,
+            y: 0,
+            z: 0,
+            w: 1,
+          },
+          wheel: {
+            x: 0,
+            y: 0,
+          },
+          vel: {
+            x: 0,
+            y: 0,
+            z: 0,
+          },
+          timestamp: serverTime(),
         },
-        timestamp: performance.now(),
-      },
+        protocol: PRESENCE_PROTOCOL_VERSION,
+        session: sessionRef.current ?? getRoomSession(roomId) ?? undefined,
+      };
+      socket.send(packMessage(initPlayer));
+    };
+
+    // binary presence messages are read as ArrayBuffer
+    socket.binaryType = "arraybuffer";
+    if (socket.readyState === WebSocket.OPEN) openHandler();
+    socket.addEventListener("open", openHandler, { signal: controller.signal });
+
+    return () => {
+      controller.abort();
+    };
+  }, [socket, roomId]);
+
+  // profile edited while playing
+  useEffect(() => {
+    if (socket.readyState !== WebSocket.OPEN) return; // sent with init-user
+    const updateProfile: UpdatePresenceActionType = {
+      type: "update-presence",
+      payload: { ...profile },
     };
+    socket.send(packMessage(updateProfile));
+  }, [socket, profile]);
 
-    socket.send(packMessage(initPlayer));
-  }, [socket]);
+  useEffect(() => {
+    useGame.setState({ roomError: null });
+    const controller = new AbortController();
+
+    const messageHandler = (message: ServerMessage) => {
+      switch (message.type) {
+        case "room-error":
+          // wrong password or full room, reconnecting won't help
+          socket.close();
+          useGame.setState({ roomError: message.payload.reason });
+          break;
+        case "session":
+          sessionRef.current = message.payload.token;
+          setRoomSession(roomId, message.payload.token);
+          break;
+        case "server-correction": {
+          // the server rejected a profile change, keep the one it knows about
+          const { name, color, emoji } = message.payload.presence;
+          if (name === undefined || color === undefined || emoji === undefined) {
+            return;
+          }
+          useProfile.setState({ profile: { name, color, emoji } });
+          break;
+        }
+      }
+    };
+
+    onPartyMessage(socket, ["room-error", "session", "server-correction"], messageHandler, {
+      signal: controller.signal,
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [socket, roomId]);
 
   return (
     <Physics interpolate timeStep={1 / 60}>
@@ -119,7 +219,7 @@ function Game({ roomId }: { roomId: string }) {
           socket={socket}
           roomId={roomId}
           playerId={playerId}
-          playerName={playerName}
+          profile={profile}
           useMoQ={useMoQ}
           forceMoQ={forceMoQ}
         >
@@ -127,7 +227,10 @@ function Game({ roomId }: { roomId: string }) {
             <CarBodyInstancer>
               <Player />
               <OtherPlayers />
+              <AiOpponents roomId={roomId} />
             </CarBodyInstancer>
+            <NameTagsTracker />
+            <Ghost />
             <Ground />
             <Track />
           </Suspense>
@@ -143,6 +246,10 @@ function Game({ roomId }: { roomId: string }) {
             </mesh>
           </Environment>
           <MoQDebugOverlay3D enabled={showMoQDebug} />
+          <ServerClock />
+          <RaceStatus />
+          <LeaderboardListener />
+          <GamepadControls />
         </MoQPartyProvider>
         {debug && <WasdControls />}
       </KeyboardControls>
@@ -150,10 +257,10 @@ function Game({ roomId }: { roomId: string }) {
   );
 }
 
-function GameCanvasInner({ roomId }: { roomId: string }) {
+function GameCanvasInner({ roomId, profile }: GameProps) {
   return (
     <Canvas dpr={[1, 1.5]}>
-      <Game roomId={roomId} />
+      <Game roomId={roomId} profile={profile} />
     </Canvas>
   );
 }
@@ -0,0 +1,89 @@
+/**
+ * Drives the local car with a gamepad
+ * Browsers don't push gamepad input, it is polled every frame and written
+ * to the analog controller vectors next to the keyboard and phone inputs.
+ */
+
+import { useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { create } from "zustand";
+import { createGamepadInput, readGamepad } from "@/lib/gamepad";
+import { controllerVectors } from "./vehicle/controller";
+
+interface GamepadStore {
+  /** Name of the gamepad in use, null when none is connected */
+  name: string | null;
+}
+
+export const useGamepad = create<GamepadStore>(() => ({
+  name: null,
+}));
+
+const input = createGamepadInput();
+
+function resetAnalogInputs() {
+  controllerVectors.analogSteering.current = 0;
+  controllerVectors.analogThrottle.current = 0;
+  controllerVectors.analogBrake.current = 0;
+  controllerVectors.driftButton.current = false;
+}
+
+function getGamepads() {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((gamepad) => gamepad !== null);
+}
+
+export function GamepadControls() {
+  // index of the gamepad in use, the first one connected
+  const indexRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const select = (gamepad: Gamepad | undefined) => {
+      indexRef.current = gamepad?.index ?? null;
+      useGamepad.setState({ name: gamepad?.id ?? null });
+      resetAnalogInputs();
+    };
+
+    window.addEventListener(
+      "gamepadconnected",
+      (event) => {
+        if (indexRef.current === null) select(event.gamepad);
+      },
+      { signal: controller.signal }
+    );
+    window.addEventListener(
+      "gamepaddisconnected",
+      (event) => {
+        if (event.gamepad.index !== indexRef.current) return;
+        // fall back to another connected gamepad
+        select(getGamepads().find((gamepad) => gamepad.index !== event.gamepad.index));
+      },
+      { signal: controller.signal }
+    );
+
+    // gamepads connected before the page loaded
+    select(getGamepads()[0]);
+
+    return () => {
+      controller.abort();
+      resetAnalogInputs();
+      useGamepad.setState({ name: null });
+    };
+  }, []);
+
+  useFrame(() => {
+    if (indexRef.current === null) return;
+    const gamepad = navigator.getGamepads()[indexRef.current];
+    if (!gamepad) return;
+
+    readGamepad(gamepad, input);
+    controllerVectors.analogSteering.current = input.steering;
+    controllerVectors.analogThrottle.current = input.throttle;
+    controllerVectors.analogBrake.current = input.brake;
+    controllerVectors.driftButton.current = input.drift;
+  });
+
+  return null;
+}
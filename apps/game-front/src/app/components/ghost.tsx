@@ -0,0 +1,154 @@
+/**
+ * Time trial ghost
+ * Every lap of the local player is recorded, the best one is kept in
+ * IndexedDB and replayed as a translucent car when the next lap starts.
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { create } from "zustand";
+import { LapTimer } from "@/lib/lap-timer";
+import { ReplayRecorder, sampleReplay, type Replay, type ReplayFrameInput } from "@/lib/replay";
+import { getPersonalBest, savePersonalBest } from "@/lib/replay-storage";
+import { createSnapshotSample } from "@/lib/snapshot-buffer";
+import { controllerVectors, localPlayer } from "./vehicle/controller";
+import { GhostCarBody, type VehicleVectors } from "./vehicle/body";
+import { useTrackDefinition } from "./track";
+import { useProfile } from "./profile";
+
+interface GhostStore {
+  enabled: boolean;
+  /** Best lap stored on this device for the current track */
+  personalBest: Replay | null;
+  /** Replay raced against, the personal best unless one was imported */
+  ghost: Replay | null;
+  lastLapTime: number | null;
+}
+
+export const useGhost = create<GhostStore>(() => ({
+  enabled: true,
+  personalBest: null,
+  ghost: null,
+  lastLapTime: null,
+}));
+
+/** Races against a replay from another player, it's not saved as personal best */
+export function setImportedGhost(replay: Replay) {
+  const trackId = useTrackDefinition.getState().definition.id;
+  if (replay.trackId !== trackId) {
+    throw new Error(`This replay is for another track: ${replay.trackId}`);
+  }
+  useGhost.setState({ ghost: replay, enabled: true });
+}
+
+const frame: ReplayFrameInput = {
+  position: localPlayer.position,
+  rotation: localPlayer.rotation,
+  wheelRotation: 0,
+  steering: 0,
+};
+
+function readLocalFrame() {
+  frame.wheelRotation = controllerVectors.wheelRotation.current;
+  frame.steering = controllerVectors.visibleSteering.current;
+  return frame;
+}
+
+export function Ghost() {
+  const definition = useTrackDefinition((s) => s.definition);
+  const enabled = useGhost((s) => s.enabled);
+
+  const timer = useMemo(() => new LapTimer(definition), [definition]);
+  const recorder = useMemo(() => new ReplayRecorder(), []);
+
+  const ghostRef = useRef<THREE.Group>(null);
+  const sample = useMemo(() => createSnapshotSample(), []);
+  const vectors = useMemo<VehicleVectors>(
+    () => ({ wheelRotation: { current: 0 }, visibleSteering: { current: 0 } }),
+    []
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    recorder.stop();
+    useGhost.setState({ personalBest: null, ghost: null, lastLapTime: null });
+
+    getPersonalBest(definition.id)
+      .then((personalBest) => {
+        if (cancelled) return;
+        useGhost.setState((s) => ({
+          personalBest,
+          ghost: s.ghost ?? personalBest,
+        }));
+      })
+      .catch((error) => {
+        console.warn("Failed to load personal best", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [definition, recorder]);
+
+  useFrame(() => {
+    const now = performance.now();
+    const event = timer.update(localPlayer.position, now);
+
+    if (event?.type === "lap-completed") {
+      const name = useProfile.getState().profile?.name ?? "";
+      const replay = recorder.finish(
+        readLocalFrame(),
+        { trackId: definition.id, name, lapTime: event.lapTime },
+        now
+      );
+      useGhost.setState({ lastLapTime: event.lapTime });
+
+      if (replay) {
+        savePersonalBest(replay)
+          .then((saved) => {
+            if (!saved) return;
+            useGhost.setState((s) => ({
+              personalBest: replay,
+              // keep racing an imported ghost until it's beaten
+              ghost:
+                !s.ghost || s.ghost === s.personalBest || replay.lapTime < s.ghost.lapTime
+                  ? replay
+                  : s.ghost,
+            }));
+          })
+          .catch((error) => {
+            console.warn("Failed to save personal best", error);
+          });
+      }
+    }
+
+    if (event) {
+      recorder.start(event.startedAt);
+    } else if (timer.lapStartedAt === null) {
+      recorder.stop();
+    }
+    recorder.record(readLocalFrame(), now);
+
+    const group = ghostRef.current;
+    if (!group) return;
+
+    const { ghost } = useGhost.getState();
+    const visible =
+      ghost !== null &&
+      timer.lapStartedAt !== null &&
+      sampleReplay(ghost, now - timer.lapStartedAt, sample);
+
+    group.visible = visible;
+    if (!visible) return;
+
+    group.position.copy(sample.position);
+    group.quaternion.copy(sample.rotation);
+    vectors.wheelRotation.current = sample.wheelRotation;
+    vectors.visibleSteering.current = sample.steering;
+  });
+
+  if (!enabled) return null;
+
+  return <GhostCarBody ref={ghostRef} v={vectors} />;
+}
@@ -0,0 +1,40 @@
+/**
+ * Keeps the leaderboard of the room track in sync
+ * Times are recorded and stored by the server, this only listens
+ */
+
+import { useEffect } from "react";
+import { create } from "zustand";
+import type { LeaderboardType, LeaderboardUpdatedMessageType } from "game-schemas";
+import { onPartyMessage } from "@/lib/party-messages";
+import { useParty } from "./use-party";
+
+export interface LeaderboardStore {
+  leaderboard: LeaderboardType | null;
+}
+
+export const useLeaderboard = create<LeaderboardStore>(() => ({
+  leaderboard: null,
+}));
+
+export function LeaderboardListener() {
+  const party = useParty();
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const messageHandler = (message: LeaderboardUpdatedMessageType) => {
+      useLeaderboard.setState({ leaderboard: message.payload });
+    };
+
+    onPartyMessage(party, ["leaderboard-updated"], messageHandler, {
+      signal: controller.signal,
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [party]);
+
+  return null;
+}
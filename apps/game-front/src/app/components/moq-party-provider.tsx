@@ -2,6 +2,7 @@
 
 import { createContext, useContext, ReactNode } from "react";
 import type { PartySocket } from "partysocket";
+import type { ProfileType } from "game-schemas";
 import { PartyProvider } from "./use-party";
 import { useMoQGameStream, type MoQGameStreamState } from "@/hooks/useMoQGameStream";
 
@@ -17,7 +18,7 @@ export function MoQPartyProvider({
   socket,
   roomId,
   playerId,
-  playerName,
+  profile,
   useMoQ = false,
   forceMoQ = false,
 }: {
@@ -25,7 +26,7 @@ export function MoQPartyProvider({
   socket: PartySocket;
   roomId: string;
   playerId: string;
-  playerName: string;
+  profile: ProfileType;
   useMoQ?: boolean;
   forceMoQ?: boolean;
 }) {
@@ -33,7 +34,7 @@ export function MoQPartyProvider({
   const moqStream = useMoQGameStream({
     roomId,
     playerId,
-    playerName,
+    profile,
     enabled: useMoQ,
     forceMoQ,
     onParticipantJoin: (participant) => {
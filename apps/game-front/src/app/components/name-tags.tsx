@@ -0,0 +1,150 @@
+/**
+ * Name tags above remote cars and edge arrows pointing to nearby players off screen
+ * Tags are plain DOM elements in a single overlay, the tracker inside the canvas
+ * moves them every frame without re-rendering, so cars stay instanced.
+ */
+
+import { useEffect, useMemo } from "react";
+import { useFrame } from "@react-three/fiber";
+import { ArrowUp } from "lucide-react";
+import * as THREE from "three";
+import type { ProfileType } from "game-schemas";
+import { remoteCarsRef, useServerStatus } from "./other-players";
+
+/** Height of the tag over the car origin */
+const TAG_HEIGHT = 0.3;
+/** Tags start fading out at this distance and are hidden after TAG_FADE_END */
+const TAG_FADE_START = 4;
+const TAG_FADE_END = 20;
+/** Off screen players closer than this get an arrow on the screen edge */
+const ARROW_DISTANCE = 12;
+/** Distance between arrows and the screen edge, in px */
+const EDGE_MARGIN = 32;
+
+interface TagElements {
+  tag: HTMLDivElement | null;
+  arrow: HTMLDivElement | null;
+}
+
+const tagElements = new Map<string, TagElements>();
+
+const _position = new THREE.Vector3();
+const _projected = new THREE.Vector3();
+
+function hide(element: HTMLDivElement) {
+  element.style.opacity = "0";
+}
+
+/** Moves the tags of every remote car, rendered inside the canvas */
+export function NameTagsTracker() {
+  useFrame(({ camera, size }) => {
+    for (const [id, { tag, arrow }] of tagElements) {
+      if (!tag || !arrow) continue;
+
+      const car = remoteCarsRef.current[id];
+      if (!car) {
+        hide(tag);
+        hide(arrow);
+        continue;
+      }
+
+      car.getWorldPosition(_position);
+      _position.y += TAG_HEIGHT;
+      const distance = camera.position.distanceTo(_position);
+
+      _projected.copy(_position).project(camera);
+      const onScreen =
+        _projected.z < 1 &&
+        Math.abs(_projected.x) <= 1 &&
+        Math.abs(_projected.y) <= 1;
+
+      if (onScreen && distance < TAG_FADE_END) {
+        const x = ((_projected.x + 1) / 2) * size.width;
+        const y = ((1 - _projected.y) / 2) * size.height;
+        const opacity =
+          1 - THREE.MathUtils.smoothstep(distance, TAG_FADE_START, TAG_FADE_END);
+        tag.style.opacity = String(opacity);
+        tag.style.transform = `translate3d(${x}px,${y}px,0) translate(-50%,-100%)`;
+      } else {
+        hide(tag);
+      }
+
+      // direction on the ground seen from the camera, forward is up on screen
+      _projected.copy(_position).applyMatrix4(camera.matrixWorldInverse);
+      const length = Math.hypot(_projected.x, _projected.z);
+
+      if (!onScreen && distance < ARROW_DISTANCE && length > 0) {
+        const dx = _projected.x / length;
+        const dy = _projected.z / length;
+
+        // push the arrow from the screen center to the edge
+        const scale = Math.min(
+          (size.width / 2 - EDGE_MARGIN) / Math.abs(dx),
+          (size.height / 2 - EDGE_MARGIN) / Math.abs(dy)
+        );
+        const x = size.width / 2 + dx * scale;
+        const y = size.height / 2 + dy * scale;
+        const angle = Math.atan2(dy, dx) + Math.PI / 2;
+
+        arrow.style.opacity = String(1 - distance / ARROW_DISTANCE / 2);
+        arrow.style.transform = `translate3d(${x}px,${y}px,0) translate(-50%,-50%) rotate(${angle}rad)`;
+      } else {
+        hide(arrow);
+      }
+    }
+  });
+
+  return null;
+}
+
+function NameTag({ id, profile }: { id: string; profile: ProfileType }) {
+  const elements = useMemo<TagElements>(() => ({ tag: null, arrow: null }), []);
+
+  useEffect(() => {
+    tagElements.set(id, elements);
+    return () => {
+      tagElements.delete(id);
+    };
+  }, [id, elements]);
+
+  return (
+    <>
+      <div
+        ref={(element) => {
+          elements.tag = element;
+        }}
+        className="absolute top-0 left-0 opacity-0 whitespace-nowrap rounded-md bg-zinc-900/70 px-2 py-0.5 text-xs text-zinc-100 will-change-transform"
+      >
+        <span
+          className="inline-block w-2 h-2 mr-1 rounded-full"
+          style={{ backgroundColor: profile.color }}
+        />
+        {profile.emoji} {profile.name}
+      </div>
+      <div
+        ref={(element) => {
+          elements.arrow = element;
+        }}
+        className="absolute top-0 left-0 opacity-0 will-change-transform"
+        style={{ color: profile.color }}
+      >
+        <ArrowUp size={22} strokeWidth={2.5} />
+      </div>
+    </>
+  );
+}
+
+/** DOM layer holding the tags, rendered over the canvas */
+export function NameTagsOverlay() {
+  const playerIds = useServerStatus((s) => s.playerIds);
+  const profiles = useServerStatus((s) => s.profiles);
+
+  return (
+    <div className="fixed inset-0 overflow-hidden pointer-events-none">
+      {playerIds.map((id) => {
+        const profile = profiles[id];
+        return profile ? <NameTag key={id} id={id} profile={profile} /> : null;
+      })}
+    </div>
+  );
+}
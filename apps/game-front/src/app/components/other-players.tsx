@@ -7,25 +7,137 @@ import { useEffect, useMemo, useRef } from "react";
 import { useParty } from "./use-party";
 import * as THREE from "three";
 import { useFrame } from "@react-three/fiber";
-import { CarBody, MAX_VEHICLE_INSTANCES } from "./vehicle/body";
-import { ServerMessage, type PresenceType } from "game-schemas";
-import { unpackMessage } from "@/lib/pack";
+import { BallCollider, RapierRigidBody, RigidBody } from "@react-three/rapier";
+import { CarBody, GhostCarBody, MAX_VEHICLE_INSTANCES } from "./vehicle/body";
+import { CAR_DIMENSIONS } from "./vehicle/constants";
+import { DriftSparks } from "./vehicle/drift-sparks";
+import {
+  PRESENCE_PROTOCOL_VERSION,
+  PresenceDeltaDecoder,
+  ServerMessage,
+  type PresenceType,
+  type ProfileType,
+  type TurboType,
+} from "game-schemas";
+import { type MessageEncoding } from "@/lib/pack";
+import { onPartyMessage } from "@/lib/party-messages";
 import { create } from "zustand";
 import { useMoQParty } from "./moq-party-provider";
 import type { MoQGameStreamState } from "@/hooks/useMoQGameStream";
+import {
+  createSnapshotSample,
+  SnapshotBuffer,
+} from "@/lib/snapshot-buffer";
+import { useGame } from "./game";
+import { localBotIds } from "./ai-opponents";
 
 const presenceRef = {
   current: {} as Record<string, PresenceType>,
 };
 
+const snapshotsRef = {
+  current: {} as Record<string, SnapshotBuffer>,
+};
+
+/** Rebuilds the delta compressed sync-presence, its last tick is acknowledged with our presence */
+export const presenceDeltas = new PresenceDeltaDecoder();
+
+/** Rendered remote cars by player id, used to place elements that follow them */
+export const remoteCarsRef = {
+  current: {} as Record<string, THREE.Object3D>,
+};
+
+interface RemoteCarUserData {
+  remotePlayerId: string;
+}
+
+/** Player id of a remote car rigid body, null for any other body */
+export function getRemoteCarId(body: { userData?: unknown } | undefined) {
+  const userData = body?.userData as Partial<RemoteCarUserData> | undefined;
+  return userData?.remotePlayerId ?? null;
+}
+
+const _bodyPosition = new THREE.Vector3();
+
+/** Stores the latest presence and queues it for interpolation */
+function receivePresence(id: string, presence: PresenceType) {
+  presenceRef.current[id] = presence;
+
+  const profile = useServerStatus.getState().profiles[id];
+  if (
+    presence.name !== undefined &&
+    (profile?.name !== presence.name ||
+      profile?.color !== presence.color ||
+      profile?.emoji !== presence.emoji)
+  ) {
+    const { name, color, emoji } = presence;
+    useServerStatus.setState((prev) => ({
+      profiles: { ...prev.profiles, [id]: { name, color, emoji } },
+    }));
+  }
+
+  // partial updates can arrive before the full presence
+  if (!presence.pos || !presence.vel || !presence.rot || !presence.wheel) return;
+
+  let buffer = snapshotsRef.current[id];
+  if (!buffer) {
+    buffer = snapshotsRef.current[id] = new SnapshotBuffer();
+  }
+  buffer.push(presence, performance.now());
+}
+
+function removePresence(id: string) {
+  presenceDeltas.remove(id);
+  delete presenceRef.current[id];
+  delete snapshotsRef.current[id];
+  useServerStatus.setState((prev) => {
+    const { [id]: _removed, ...profiles } = prev.profiles;
+    return { profiles };
+  });
+}
+
+/** Keeps the snapshots of a player that came back with a new connection id */
+function movePresence(previousId: string, id: string) {
+  if (previousId === id) return;
+  const buffer = snapshotsRef.current[previousId];
+  removePresence(previousId);
+  if (buffer) snapshotsRef.current[id] = buffer;
+}
+
 export interface ServerStatusStore {
   playerIds: string[];
+  /** Players whose connection dropped, their car is frozen until they come back */
+  disconnectedIds: string[];
+  /** Encoding negotiated for presence updates on the current connection */
+  encoding: MessageEncoding;
+  /** Name, color and emoji of the other players, updated only when they change */
+  profiles: Record<string, ProfileType>;
+  /** Tick of the last sync-presence, null until one arrives on the connection */
+  lastTick: number | null;
+  /** sync-presence messages that never arrived, found from the tick numbers */
+  missedTicks: number;
 }
 
 export const useServerStatus = create<ServerStatusStore>(() => ({
   playerIds: [],
+  disconnectedIds: [],
+  encoding: "string",
+  profiles: {},
+  lastTick: null,
+  missedTicks: 0,
 }));
 
+/** The server tells which tick it sent before, a different one than ours means we missed it */
+function receiveTick(tick: number, previousTick: number | undefined) {
+  const { lastTick } = useServerStatus.getState();
+  const missed =
+    previousTick !== undefined && lastTick !== null && previousTick !== lastTick;
+  useServerStatus.setState((prev) => ({
+    lastTick: tick,
+    missedTicks: missed ? prev.missedTicks + 1 : prev.missedTicks,
+  }));
+}
+
 export function OtherPlayers() {
   const { playerIds } = useServerStatus();
 
@@ -57,34 +169,42 @@ export function OtherPlayers() {
     const controller = new AbortController();
     const signal = controller.signal;
 
-    const messageHandler = (m: MessageEvent) => {
-      const message = unpackMessage(m.data) as ServerMessage;
-
+    const messageHandler = (message: ServerMessage) => {
       switch (message.type) {
+        case "protocol":
+          if (message.payload.version === PRESENCE_PROTOCOL_VERSION) {
+            useServerStatus.setState({ encoding: "binary" });
+          }
+          break;
         case "pull-server-presence":
           const allUsers = message.payload.users;
           // remove self from presence update
           delete allUsers[selfId];
 
           const playerKeys = Object.keys(allUsers);
+          // disconnected players are sent again right after
           useServerStatus.setState({
             playerIds: playerKeys,
+            disconnectedIds: [],
           });
           Object.entries(allUsers).forEach(([id, presence]) => {
-            presenceRef.current[id] = presence;
+            receivePresence(id, presence);
           });
           break;
         case "sync-presence":
-          const usersToUpdate = message.payload.users;
+          receiveTick(message.payload.tick, message.payload.previousTick);
+          // a delta of an unknown baseline only has the changed fields, they are merged as is
+          const usersToUpdate =
+            presenceDeltas.decode(message.payload) ?? message.payload.users;
           // remove self from presence update
           delete usersToUpdate[selfId];
 
           Object.entries(usersToUpdate).forEach(([id, presence]) => {
             const currentP = presenceRef.current[id] || {};
-            presenceRef.current[id] = {
+            receivePresence(id, {
               ...currentP,
               ...presence,
-            };
+            });
           });
           break;
         case "player-added":
@@ -99,7 +219,7 @@ export function OtherPlayers() {
             return prev;
           });
 
-          presenceRef.current[message.payload.id] = message.payload.presence;
+          receivePresence(message.payload.id, message.payload.presence);
 
           break;
         case "player-removed":
@@ -108,19 +228,72 @@ export function OtherPlayers() {
               playerIds: prev.playerIds.filter(
                 (id) => id !== message.payload.id
               ),
+              disconnectedIds: prev.disconnectedIds.filter(
+                (id) => id !== message.payload.id
+              ),
             };
           });
-          delete presenceRef.current[message.payload.id];
+          removePresence(message.payload.id);
           break;
+        case "player-disconnected":
+          useServerStatus.setState((prev) => {
+            if (prev.disconnectedIds.includes(message.payload.id)) return prev;
+            return {
+              disconnectedIds: [...prev.disconnectedIds, message.payload.id],
+            };
+          });
+          break;
+        case "player-resumed": {
+          const { previousId, id, presence } = message.payload;
+          useServerStatus.setState((prev) => {
+            const playerIds = prev.playerIds.filter(
+              (playerId) => playerId !== previousId && playerId !== id
+            );
+            // our own car is not rendered here
+            if (id !== selfId) playerIds.push(id);
+            return {
+              playerIds,
+              disconnectedIds: prev.disconnectedIds.filter(
+                (playerId) => playerId !== previousId && playerId !== id
+              ),
+            };
+          });
+          if (id === selfId) {
+            removePresence(previousId);
+          } else {
+            movePresence(previousId, id);
+            receivePresence(id, presence);
+          }
+          break;
+        }
       }
     };
-    party.addEventListener("message", messageHandler, {
+    // a new connection has to negotiate the protocol again
+    const closeHandler = () => {
+      useServerStatus.setState({ encoding: "string", lastTick: null });
+      presenceDeltas.reset();
+    };
+
+    onPartyMessage(
+      party,
+      [
+        "protocol",
+        "pull-server-presence",
+        "sync-presence",
+        "player-added",
+        "player-removed",
+        "player-disconnected",
+        "player-resumed",
+      ],
+      messageHandler,
+      { signal }
+    );
+    party.addEventListener("close", closeHandler, {
       signal,
     });
 
     return () => {
       controller.abort();
-      party.removeEventListener("message", messageHandler);
     };
   }, [party, selfId, forceMoQ]);
   
@@ -129,9 +302,9 @@ export function OtherPlayers() {
     if (!moqStream || !moqStream.isMoQReady) return;
     // Subscribe to incoming MoQ updates to keep presence and ids in sync
     const unsubscribe = moqStream.debugEvents.onIncoming(() => {
-      // Copy latest map into presenceRef
+      // Copy latest map into presenceRef, repeated states are ignored by the buffers
       moqStream.remoteStates.forEach((presence: PresenceType, playerId: string) => {
-        presenceRef.current[playerId] = presence;
+        receivePresence(playerId, presence);
       });
       // Keep player list in sync
       const ids = Array.from(moqStream.remoteStates.keys());
@@ -139,7 +312,7 @@ export function OtherPlayers() {
     });
     // Also run once immediately
     moqStream.remoteStates.forEach((presence: PresenceType, playerId: string) => {
-      presenceRef.current[playerId] = presence;
+      receivePresence(playerId, presence);
     });
     useServerStatus.setState({ playerIds: Array.from(moqStream.remoteStates.keys()) });
     return unsubscribe;
@@ -148,7 +321,10 @@ export function OtherPlayers() {
   return (
     <>
       {playerIds.map((id, i) =>
-        i < MAX_VEHICLE_INSTANCES - 3 ? <OtherPlayer key={id} id={id} /> : null
+        // AI cars hosted here are already rendered by their physics
+        i < MAX_VEHICLE_INSTANCES - 3 && !localBotIds.has(id) ? (
+          <OtherPlayer key={id} id={id} />
+        ) : null
       )}
     </>
   );
@@ -156,49 +332,77 @@ export function OtherPlayers() {
 
 function OtherPlayer({ id }: { id: string }) {
   const playerRef = useRef<THREE.Group>(null);
+  const bodyRef = useRef<RapierRigidBody>(null);
+  const interpolationDelay = useGame((s) => s.interpolationDelay);
+  const color = useServerStatus((s) => s.profiles[id]?.color);
+  const disconnected = useServerStatus((s) => s.disconnectedIds.includes(id));
+
+  useEffect(() => {
+    if (!playerRef.current) return;
+    remoteCarsRef.current[id] = playerRef.current;
+    return () => {
+      delete remoteCarsRef.current[id];
+    };
+  }, [id]);
 
   const carVectors = useMemo(
     () => ({
-      originTimestamp: 0,
-      positionCurrent: new THREE.Vector3(),
-      velocity: new THREE.Vector3(),
-      deltaVelocity: new THREE.Vector3(),
+      sample: createSnapshotSample(),
       wheelRotation: { current: 0 },
       visibleSteering: { current: 0 },
+      turbo: { current: { charge: 0, boost: 0 } as TurboType },
     }),
     []
   );
 
-  useFrame((_, delta) => {
-    const presence = presenceRef.current[id];
+  useFrame(() => {
+    const buffer = snapshotsRef.current[id];
 
-    if (!presence) return;
+    if (!buffer) return;
     if (!playerRef.current) return;
 
-    if (carVectors.originTimestamp !== presence.timestamp) {
-      carVectors.velocity.copy(presence.vel);
-      carVectors.positionCurrent.copy(presence.pos);
-      carVectors.originTimestamp = presence.timestamp;
-    }
-
-    carVectors.deltaVelocity.copy(carVectors.velocity).multiplyScalar(delta);
+    const { sample } = carVectors;
+    if (!buffer.sample(performance.now() - interpolationDelay, sample)) return;
 
-    carVectors.positionCurrent.add(carVectors.deltaVelocity);
+    playerRef.current.position.copy(sample.position);
+    playerRef.current.quaternion.copy(sample.rotation);
 
-    playerRef.current.position.lerp(
-      carVectors.positionCurrent,
-      Math.min(delta * 10, 1)
-    );
-    playerRef.current.quaternion.set(
-      presence.rot.x,
-      presence.rot.y,
-      presence.rot.z,
-      presence.rot.w
-    );
+    // the collider follows the rendered car, at the height of the local car collider
+    _bodyPosition.set(sample.position.x, CAR_DIMENSIONS.COLLIDER_RADIUS, sample.position.z);
+    bodyRef.current?.setNextKinematicTranslation(_bodyPosition);
 
-    carVectors.wheelRotation.current = presence.wheel.x;
-    carVectors.visibleSteering.current = presence.wheel.y;
+    carVectors.wheelRotation.current = sample.wheelRotation;
+    carVectors.visibleSteering.current = sample.steering;
+    // sparks follow the latest state, they are too short lived to interpolate
+    const turbo = presenceRef.current[id]?.turbo;
+    if (turbo) carVectors.turbo.current = turbo;
   });
 
-  return <CarBody ref={playerRef} v={carVectors} />;
+  const userData = useMemo<RemoteCarUserData>(() => ({ remotePlayerId: id }), [id]);
+
+  return (
+    <>
+      {/* remote cars push the local car but are only moved by their presence */}
+      {/* disconnected cars are ghosts until their player comes back */}
+      {!disconnected && (
+        <RigidBody
+          ref={bodyRef}
+          type="kinematicPosition"
+          colliders={false}
+          userData={userData}
+          name="remote-player"
+        >
+          <BallCollider args={[CAR_DIMENSIONS.COLLIDER_RADIUS]} />
+        </RigidBody>
+      )}
+      <group ref={playerRef}>
+        {disconnected ? (
+          <GhostCarBody v={carVectors} />
+        ) : (
+          <CarBody v={carVectors} color={color} />
+        )}
+        <DriftSparks turbo={carVectors.turbo} />
+      </group>
+    </>
+  );
 }
@@ -0,0 +1,57 @@
+/**
+ * Profile of the local player: name, car color and emoji
+ * Chosen before joining a room and persisted in localStorage
+ */
+
+import { create } from "zustand";
+import { CAR_COLORS, ProfileSchema, type ProfileType } from "game-schemas";
+
+const STORAGE_KEY = "react-miami-game:profile";
+
+export interface ProfileStore {
+  /** False until the stored profile was read, it is only available on the client */
+  loaded: boolean;
+  /** Null until the player went through the profile step */
+  profile: ProfileType | null;
+}
+
+export const useProfile = create<ProfileStore>(() => ({
+  loaded: false,
+  profile: null,
+}));
+
+/** Reads the stored profile, invalid or outdated profiles are ignored */
+export function loadStoredProfile() {
+  let profile: ProfileType | null = null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const result = ProfileSchema.safeParse(stored ? JSON.parse(stored) : null);
+    if (result.success) profile = result.data;
+  } catch {
+    // storage not available or corrupted, ask again
+  }
+  useProfile.setState({ loaded: true, profile });
+}
+
+/** Validates and stores a profile, returns the validation errors if it was rejected */
+export function saveProfile(profile: ProfileType) {
+  const result = ProfileSchema.safeParse(profile);
+  if (!result.success) return result.error;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(result.data));
+  } catch {
+    // keep the profile for this session only
+  }
+  useProfile.setState({ profile: result.data });
+  return null;
+}
+
+/** Suggested profile for the first visit */
+export function createDefaultProfile(): ProfileType {
+  return {
+    name: "",
+    color: CAR_COLORS[Math.floor(Math.random() * CAR_COLORS.length)],
+    emoji: "",
+  };
+}
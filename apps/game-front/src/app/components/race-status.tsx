@@ -0,0 +1,79 @@
+/**
+ * Keeps the race state sent by the server in sync
+ * The race itself is computed on the server, this only listens
+ */
+
+import { useEffect } from "react";
+import { create } from "zustand";
+import type {
+  LapCompletedMessageType,
+  RaceResultType,
+  RaceStateType,
+  ServerMessage,
+  StartRaceActionType,
+} from "game-schemas";
+import { packMessage } from "@/lib/pack";
+import { onPartyMessage } from "@/lib/party-messages";
+import { useParty } from "./use-party";
+
+export interface RaceStatusStore {
+  selfId: string | null;
+  race: RaceStateType | null;
+  lastLap: LapCompletedMessageType["payload"] | null;
+  results: RaceResultType[] | null;
+  startRace: () => void;
+}
+
+export const useRaceStatus = create<RaceStatusStore>(() => ({
+  selfId: null,
+  race: null,
+  lastLap: null,
+  results: null,
+  startRace: () => {},
+}));
+
+export function RaceStatus() {
+  const party = useParty();
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    useRaceStatus.setState({
+      selfId: party.id,
+      startRace: () => {
+        const action: StartRaceActionType = { type: "start-race" };
+        party.send(packMessage(action));
+      },
+    });
+
+    const messageHandler = (message: ServerMessage) => {
+      switch (message.type) {
+        case "race-state":
+          useRaceStatus.setState((prev) => ({
+            race: message.payload,
+            // clear previous race data when a new one starts
+            results: message.payload.phase === "countdown" ? null : prev.results,
+            lastLap: message.payload.phase === "countdown" ? null : prev.lastLap,
+          }));
+          break;
+        case "lap-completed":
+          if (message.payload.id !== party.id) return;
+          useRaceStatus.setState({ lastLap: message.payload });
+          break;
+        case "race-results":
+          useRaceStatus.setState({ results: message.payload.results });
+          break;
+      }
+    };
+
+    onPartyMessage(party, ["race-state", "lap-completed", "race-results"], messageHandler, {
+      signal: controller.signal,
+    });
+
+    return () => {
+      controller.abort();
+    };
+  }, [party]);
+
+  return null;
+}
@@ -0,0 +1,110 @@
+/**
+ * NTP-style clock synchronization with the game server
+ * Pings the server over the party socket and estimates the offset
+ * between the local clock and the server clock.
+ */
+
+import { useEffect } from "react";
+import { create } from "zustand";
+import type { PingActionType, PongMessageType } from "game-schemas";
+import { packMessage } from "@/lib/pack";
+import { onPartyMessage } from "@/lib/party-messages";
+import { useParty } from "./use-party";
+
+/** Pings sent right after connecting, to get a first estimate quickly */
+const INITIAL_PINGS = 5;
+const INITIAL_PING_INTERVAL_MS = 200;
+const PING_INTERVAL_MS = 2000;
+/** Samples used to estimate the offset, the one with the lowest rtt wins */
+const MAX_SAMPLES = 8;
+
+interface ClockSample {
+  rtt: number;
+  offset: number;
+}
+
+export interface ServerClockStore {
+  synced: boolean;
+  /** server time - local time, in ms */
+  offset: number;
+  /** Last measured round trip time, in ms */
+  rtt: number | null;
+}
+
+export const useServerClock = create<ServerClockStore>(() => ({
+  synced: false,
+  offset: 0,
+  rtt: null,
+}));
+
+/** Local epoch time with sub-millisecond precision, unaffected by wall clock changes */
+function localNow() {
+  return performance.timeOrigin + performance.now();
+}
+
+/** Current time on the server clock, in ms */
+export function serverTime() {
+  return localNow() + useServerClock.getState().offset;
+}
+
+export function ServerClock() {
+  const party = useParty();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    let samples: ClockSample[] = [];
+    let pingsSent = 0;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const sendPing = () => {
+      const ping: PingActionType = {
+        type: "ping",
+        payload: { clientTime: localNow() },
+      };
+      party.send(packMessage(ping));
+      pingsSent++;
+
+      timeout = setTimeout(
+        sendPing,
+        pingsSent < INITIAL_PINGS ? INITIAL_PING_INTERVAL_MS : PING_INTERVAL_MS
+      );
+    };
+
+    const start = () => {
+      clearTimeout(timeout);
+      samples = [];
+      pingsSent = 0;
+      sendPing();
+    };
+
+    const messageHandler = (message: PongMessageType) => {
+      const now = localNow();
+      const { clientTime, serverTime } = message.payload;
+      const rtt = now - clientTime;
+      // assume the pong was sent halfway through the round trip
+      const offset = serverTime + rtt / 2 - now;
+
+      samples.push({ rtt, offset });
+      if (samples.length > MAX_SAMPLES) samples.shift();
+
+      const best = samples.reduce((a, b) => (b.rtt < a.rtt ? b : a));
+      useServerClock.setState({ synced: true, offset: best.offset, rtt });
+    };
+
+    onPartyMessage(party, ["pong"], messageHandler, { signal });
+    // the server clock can change on reconnection, start over
+    party.addEventListener("open", start, { signal });
+    party.addEventListener("close", () => clearTimeout(timeout), { signal });
+
+    if (party.readyState === WebSocket.OPEN) start();
+
+    return () => {
+      controller.abort();
+      clearTimeout(timeout);
+    };
+  }, [party]);
+
+  return null;
+}
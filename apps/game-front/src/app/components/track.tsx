@@ -3,6 +3,16 @@ import { RigidBody } from "@react-three/rapier";
 import { useEffect, useState } from "react";
 import * as THREE from "three";
 import { GLTF } from "three/examples/jsm/Addons.js";
+import { create } from "zustand";
+import {
+  getGltfTrackNodes,
+  isSameTrackLayout,
+  isTrackNodeName,
+  MIAMI_TRACK,
+  parseTrackDefinition,
+  type GltfDocument,
+  type TrackDefinitionType,
+} from "game-schemas";
 import { useAssets } from "./assets";
 
 interface TrackGTLF extends GLTF {
@@ -13,6 +23,15 @@ interface TrackGTLF extends GLTF {
   };
 }
 
+interface TrackDefinitionStore {
+  definition: TrackDefinitionType;
+}
+
+/** Gameplay data of the loaded track, the shared definition the server races on */
+export const useTrackDefinition = create<TrackDefinitionStore>(() => ({
+  definition: MIAMI_TRACK,
+}));
+
 export function Track() {
   const { models } = useAssets();
   const result = useGLTF(models.track.url) as unknown as TrackGTLF;
@@ -30,6 +49,22 @@ export function Track() {
       }
     });
 
+    // markers are gameplay data, never rendered
+    result.scene.traverse((object) => {
+      if (isTrackNodeName(object.name)) object.visible = false;
+    });
+
+    // the server can't read the GLB, markers only count once extracted to the shared definition
+    const parsed = parseTrackDefinition(
+      MIAMI_TRACK.id,
+      getGltfTrackNodes(result.parser.json as GltfDocument)
+    );
+    if (parsed && !isSameTrackLayout(parsed, useTrackDefinition.getState().definition)) {
+      console.warn(
+        "[Track] The GLB markers differ from the shared track definition, run `pnpm run extract-track` in packages/game-schemas"
+      );
+    }
+
     const colliderMesh = result.scene.getObjectByName("collider");
     if (colliderMesh) {
       colliderMesh.removeFromParent();
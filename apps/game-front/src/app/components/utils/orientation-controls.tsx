@@ -3,14 +3,69 @@
 import { ArrowBigUp } from "lucide-react";
 import { useDeviceOrientation } from "@/hooks/use-device-orientation";
 import { ArrowBigDown } from "lucide-react";
-import { useCallback, useEffect } from "react";
+import { type ReactNode, useCallback, useEffect } from "react";
 import { useRef, useState } from "react";
 import { cn } from "@/lib/utils";
 import { Button } from "../ui/button";
 
+/** Lightest press of a pedal zone, touching its bottom edge */
+const MIN_PRESSURE = 0.25;
+/** Pedal values are rounded to these steps, so dragging doesn't flood the connection */
+const PRESSURE_STEP = 0.05;
+
+interface PedalZoneProps {
+  value: number;
+  onChange: (value: number) => void;
+  children: ReactNode;
+}
+
+/** Half of the screen that works as a pedal, pressing higher pushes it further */
+function PedalZone({ value, onChange, children }: PedalZoneProps) {
+  const pressedRef = useRef(false);
+
+  const update = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const height = (rect.bottom - event.clientY) / rect.height;
+    const pressure = Math.max(MIN_PRESSURE, Math.min(1, height));
+    onChange(Math.round(pressure / PRESSURE_STEP) * PRESSURE_STEP);
+  };
+
+  const release = () => {
+    pressedRef.current = false;
+    onChange(0);
+  };
+
+  return (
+    <div
+      onPointerDown={(event) => {
+        pressedRef.current = true;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        update(event);
+      }}
+      onPointerMove={(event) => {
+        if (pressedRef.current) update(event);
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      className="relative w-1/2 h-full flex items-center justify-center touch-none"
+    >
+      <div
+        className="absolute bottom-0 left-0 w-full bg-pink-500/20"
+        style={{ height: `${value * 100}%` }}
+      />
+      {children}
+    </div>
+  );
+}
+
 interface OrientationControlsProps {
+  /** Called when the throttle goes from released to pressed and back */
   onAccelerationChange?: (enabled: boolean) => void;
   onBreakChange?: (enabled: boolean) => void;
+  /** Analog throttle, 0..1 */
+  onThrottleChange?: (value: number) => void;
+  /** Analog brake, 0..1 */
+  onBrakePressureChange?: (value: number) => void;
   onSteeringChange?: (angle: number) => void;
   rotationLimit?: number;
   showInclination?: boolean;
@@ -19,17 +74,25 @@ interface OrientationControlsProps {
 export function OrientationControls({
   onAccelerationChange,
   onBreakChange,
+  onThrottleChange,
+  onBrakePressureChange,
   onSteeringChange,
   rotationLimit = 90,
   showInclination = false,
 }: OrientationControlsProps) {
-  const [acceleration, setAcceleration] = useState(false);
-  const [brake, setBrake] = useState(false);
+  const [throttle, setThrottle] = useState(0);
+  const [brakePressure, setBrakePressure] = useState(0);
+  const acceleration = throttle > 0;
+  const brake = brakePressure > 0;
 
   const onAccelerationChangeRef = useRef(onAccelerationChange);
   onAccelerationChangeRef.current = onAccelerationChange;
   const onBreakChangeRef = useRef(onBreakChange);
   onBreakChangeRef.current = onBreakChange;
+  const onThrottleChangeRef = useRef(onThrottleChange);
+  onThrottleChangeRef.current = onThrottleChange;
+  const onBrakePressureChangeRef = useRef(onBrakePressureChange);
+  onBrakePressureChangeRef.current = onBrakePressureChange;
   const onSteeringChangeRef = useRef(onSteeringChange);
   onSteeringChangeRef.current = onSteeringChange;
 
@@ -41,6 +104,14 @@ export function OrientationControls({
     onBreakChangeRef.current?.(brake);
   }, [brake]);
 
+  useEffect(() => {
+    onThrottleChangeRef.current?.(throttle);
+  }, [throttle]);
+
+  useEffect(() => {
+    onBrakePressureChangeRef.current?.(brakePressure);
+  }, [brakePressure]);
+
   const squareRef = useRef<HTMLDivElement>(null);
   const [orientationType, setOrientationType] =
     useState<OrientationType | null>(null);
@@ -139,22 +210,16 @@ export function OrientationControls({
         />
       )}
       <div className="absolute top-0 left-0 w-full h-full flex items-stretch justify-stretch">
-        <div
-          onPointerDown={() => setBrake(true)}
-          onPointerUp={() => setBrake(false)}
-          className="w-1/2 h-full flex items-center justify-center"
-        >
-          <ArrowBigDown className={cn("w-12 h-12", brake && "text-pink-500")} />
-        </div>
-        <div
-          onPointerDown={() => setAcceleration(true)}
-          onPointerUp={() => setAcceleration(false)}
-          className="w-1/2 h-full flex items-center justify-center"
-        >
+        <PedalZone value={brakePressure} onChange={setBrakePressure}>
+          <ArrowBigDown
+            className={cn("relative w-12 h-12", brake && "text-pink-500")}
+          />
+        </PedalZone>
+        <PedalZone value={throttle} onChange={setThrottle}>
           <ArrowBigUp
-            className={cn("w-12 h-12", acceleration && "text-pink-500")}
+            className={cn("relative w-12 h-12", acceleration && "text-pink-500")}
           />
-        </div>
+        </PedalZone>
       </div>
     </div>
   );
@@ -3,7 +3,7 @@
 /** Inspired by https://github.com/isaac-mason/sketches/blob/main/sketches/rapier/arcade-vehicle-controller/src/sketch.tsx */
 
 import { useFrame } from "@react-three/fiber";
-import { forwardRef, useMemo, useRef } from "react";
+import { forwardRef, useEffect, useMemo, useRef } from "react";
 import * as THREE from "three";
 import { WHEEL } from "./constants";
 import { useGLTF, useTexture } from "@react-three/drei";
@@ -129,25 +129,38 @@ export interface VehicleVectors {
   visibleSteering: { current: number };
 }
 
-export const CarBody = forwardRef<THREE.Group, { v: VehicleVectors }>(
-  ({ v }, ref) => {
-    const wheelsRef = useRef<(THREE.Object3D | null)[]>([]);
+interface CarBodyProps {
+  v: VehicleVectors;
+  /** Body color, multiplied with the body texture */
+  color?: string;
+}
 
-    useFrame(() => {
-      wheelsRef.current.forEach((wheel) => {
-        if (!wheel) return;
+function useWheelsAnimation(v: VehicleVectors) {
+  const wheelsRef = useRef<(THREE.Object3D | null)[]>([]);
 
-        wheel.rotation.order = "YXZ";
-        wheel.rotation.x = v.wheelRotation.current * 0.2;
-      });
+  useFrame(() => {
+    wheelsRef.current.forEach((wheel) => {
+      if (!wheel) return;
 
-      wheelsRef.current[1]!.rotation.y = v.visibleSteering.current * 0.5;
-      wheelsRef.current[0]!.rotation.y = v.visibleSteering.current * 0.5;
+      wheel.rotation.order = "YXZ";
+      wheel.rotation.x = v.wheelRotation.current * 0.2;
     });
 
+    wheelsRef.current[1]!.rotation.y = v.visibleSteering.current * 0.5;
+    wheelsRef.current[0]!.rotation.y = v.visibleSteering.current * 0.5;
+  });
+
+  return wheelsRef;
+}
+
+export const CarBody = forwardRef<THREE.Group, CarBodyProps>(
+  ({ v, color = "#ffffff" }, ref) => {
+    const wheelsRef = useWheelsAnimation(v);
+
     return (
       <group ref={ref}>
         <CarInstance
+          color={color}
           rotation={[Math.PI / -2, Math.PI / 1, 0]}
           rotation-order="YXZ"
           frustumCulled={false}
@@ -171,3 +184,65 @@ export const CarBody = forwardRef<THREE.Group, { v: VehicleVectors }>(
 );
 
 CarBody.displayName = "CarBody";
+
+interface GhostCarBodyProps {
+  v: VehicleVectors;
+  opacity?: number;
+}
+
+/**
+ * Translucent car, not instanced because instances share one material
+ * Used for replays, only a couple are on screen at once
+ */
+export const GhostCarBody = forwardRef<THREE.Group, GhostCarBodyProps>(
+  ({ v, opacity = 0.35 }, ref) => {
+    const {
+      models: { vehicle },
+    } = useAssets();
+    const { nodes } = useGLTF(vehicle.url) as unknown as CarGLTF;
+    const wheelsRef = useWheelsAnimation(v);
+
+    const material = useMemo(
+      () =>
+        new THREE.MeshBasicMaterial({
+          color: "#9be7ff",
+          transparent: true,
+          depthWrite: false,
+        }),
+      []
+    );
+
+    useEffect(() => {
+      material.opacity = opacity;
+    }, [material, opacity]);
+
+    useEffect(() => () => material.dispose(), [material]);
+
+    return (
+      <group ref={ref}>
+        <mesh
+          geometry={nodes.Body.geometry}
+          material={material}
+          rotation={[Math.PI / -2, Math.PI / 1, 0]}
+          rotation-order="YXZ"
+        />
+
+        {wheels.map((wheel, index) => (
+          <group
+            key={index}
+            ref={(ref) => (wheelsRef.current[index] = ref)}
+            position={wheel.position}
+          >
+            <mesh
+              geometry={nodes.wheel.geometry}
+              material={material}
+              rotation-y={index % 2 === 0 ? 0 : Math.PI}
+            />
+          </group>
+        ))}
+      </group>
+    );
+  }
+);
+
+GhostCarBody.displayName = "GhostCarBody";
@@ -1,10 +1,12 @@
+import { VEHICLE_COLLISION } from "game-schemas";
+
 // Car dimensions
 export const CAR_DIMENSIONS = {
   WIDTH: 0.1,
   HEIGHT: 0.08,
   LENGTH: 0.2,
   MASS: 2,
-  COLLIDER_RADIUS: 0.1,
+  COLLIDER_RADIUS: VEHICLE_COLLISION.radius,
 } as const;
 
 // Wheel properties
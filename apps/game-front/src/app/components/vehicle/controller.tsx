@@ -16,7 +16,7 @@ import {
   useBeforePhysicsStep,
   useRapier,
 } from "@react-three/rapier";
-import { forwardRef, useEffect, useMemo, useRef } from "react";
+import { forwardRef, useCallback, useEffect, useMemo, useRef } from "react";
 import mergeRefs from "merge-refs";
 import * as THREE from "three";
 import { GameControls, useGame } from "../game";
@@ -28,10 +28,31 @@ import {
   useOnControlsMessage,
 } from "@/hooks/use-peer-controls";
 import { CarBody } from "./body";
+import { DriftSparks } from "./drift-sparks";
 import { CAR_DIMENSIONS, WHEEL } from "./constants";
-import { UpdatePresenceActionType } from "game-schemas";
+import {
+  CarCollisionMessageType,
+  CollisionActionType,
+  PresenceType,
+  ServerMessage,
+  TrackSpawnType,
+  TurboType,
+  UpdatePresenceActionType,
+  VEHICLE_COLLISION,
+  VEHICLE_PHYSICS,
+} from "game-schemas";
 import { useParty } from "../use-party";
+import { useTrackDefinition } from "../track";
+import { useProfile } from "../profile";
+import {
+  getRemoteCarId,
+  presenceDeltas,
+  useServerStatus,
+} from "../other-players";
+import { serverTime } from "../server-clock";
 import { packMessage } from "@/lib/pack";
+import { onPartyMessage } from "@/lib/party-messages";
+import { DriftBoost } from "@/lib/drift-boost";
 import { useMoQParty } from "../moq-party-provider";
 import type { MessagePayload } from "peerjs-react";
 import type { MoQGameStreamState } from "@/hooks/useMoQGameStream";
@@ -41,12 +62,13 @@ const PLAYER_UPDATE_FPS = 15;
 const initialPosition = new THREE.Vector3(0, 0.01, 0);
 
 const up = new THREE.Vector3(0, 1, 0);
-const maxForwardSpeed = 8;
-const maxReverseSpeed = -4;
 
 const joysticRemapFrom = 30;
 const joysticRemapTo = 0.04;
 
+/** Analog steering needed to start a drift in that direction */
+const ANALOG_DRIFT_STEERING = 0.5;
+
 const CAMERA = {
   positionOffset: new THREE.Vector3(0, 0.3, 0.8),
   lookAtOffset: new THREE.Vector3(0, 0, -2),
@@ -62,6 +84,8 @@ const bodyPosition = new THREE.Vector3();
 const _bodyEuler = new THREE.Euler();
 const _cameraPosition = new THREE.Vector3();
 const _impulse = new THREE.Vector3();
+const _spawnQuaternion = new THREE.Quaternion();
+const _spawnEuler = new THREE.Euler();
 
 // TODO: replace this with _bodyPosition
 const playerPos = new THREE.Vector3(0, 0, 0).copy(initialPosition);
@@ -74,19 +98,83 @@ export interface CarControllerVectors {
   joystickRotation: { current: number };
   joystickAcceleration: { current: boolean };
   joystickBrake: { current: boolean };
+  /** Analog throttle and brake of the phone controls, 0..1 */
+  joystickThrottle: { current: number };
+  joystickBrakePressure: { current: number };
+  /** Analog steering, -1 full left to 1 full right, added to the keyboard steering */
+  analogSteering: { current: number };
+  /** Analog throttle and brake, 0..1, the strongest of them and the buttons wins */
+  analogThrottle: { current: number };
+  analogBrake: { current: number };
+  driftButton: { current: boolean };
   wheelRotation: { current: number };
   steeringInput: { current: number };
   visibleSteering: { current: number };
+  /** Position the car is moved to on the next physics step, set by server corrections */
+  teleport: { current: PresenceType["pos"] | null };
+  /** Impulse applied on the next physics step, set by collisions the server accepted */
+  bump: { current: PresenceType["pos"] | null };
+  /** Drift mini-turbo state of the car, set by the physics */
+  turbo: { current: TurboType };
+}
+
+/** Stable spawn slot for a player id, so each player keeps its grid position */
+function getSpawnIndex(id: string, count: number) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % count;
+}
+
+export function createControllerVectors(): CarControllerVectors {
+  return {
+    activeJoystick: { current: false },
+    joystickRotation: { current: 0 },
+    joystickAcceleration: { current: false },
+    joystickBrake: { current: false },
+    joystickThrottle: { current: 0 },
+    joystickBrakePressure: { current: 0 },
+    analogSteering: { current: 0 },
+    analogThrottle: { current: 0 },
+    analogBrake: { current: 0 },
+    driftButton: { current: false },
+    wheelRotation: { current: 0 },
+    steeringInput: { current: 0 },
+    visibleSteering: { current: 0 },
+    teleport: { current: null },
+    bump: { current: null },
+    turbo: { current: { charge: 0, boost: 0 } },
+  };
+}
+
+/** Queues the bump of a server accepted collision if the car with `id` is part of it */
+export function receiveCarCollision(
+  vectors: CarControllerVectors,
+  id: string,
+  { ids, impulse }: CarCollisionMessageType["payload"]
+) {
+  const index = ids.indexOf(id);
+  if (index === -1) return;
+  // the second car is pushed the other way
+  const sign = index === 0 ? 1 : -1;
+  vectors.bump.current = {
+    x: impulse.x * sign,
+    y: impulse.y * sign,
+    z: impulse.z * sign,
+  };
+}
+
+export function createCollisionAction(id: string): CollisionActionType {
+  return { type: "collision", payload: { id } };
 }
 
-export const controllerVectors: CarControllerVectors = {
-  activeJoystick: { current: false },
-  joystickRotation: { current: 0 },
-  joystickAcceleration: { current: false },
-  joystickBrake: { current: false },
-  wheelRotation: { current: 0 },
-  steeringInput: { current: 0 },
-  visibleSteering: { current: 0 },
+export const controllerVectors = createControllerVectors();
+
+/** World transform of the local car, updated every frame */
+export const localPlayer = {
+  position: playerPos as Readonly<THREE.Vector3>,
+  rotation: playerRot as Readonly<THREE.Quaternion>,
 };
 
 export const CarController = forwardRef<THREE.Group, unknown>(
@@ -95,6 +183,12 @@ export const CarController = forwardRef<THREE.Group, unknown>(
 
     // update multiplayer
     const party = useParty();
+    const color = useProfile((s) => s.profile?.color);
+
+    const spawn = useTrackDefinition(
+      (s) =>
+        s.definition.spawns[getSpawnIndex(party.id, s.definition.spawns.length)]
+    );
     
     // Get MoQ stream if available
     let moqStream: MoQGameStreamState | null = null;
@@ -132,8 +226,13 @@ export const CarController = forwardRef<THREE.Group, unknown>(
             x: controllerVectors.wheelRotation.current,
             y: controllerVectors.visibleSteering.current,
           },
-          timestamp: performance.now(),
+          turbo: {
+            charge: controllerVectors.turbo.current.charge,
+            boost: controllerVectors.turbo.current.boost,
+          },
+          timestamp: serverTime(),
         },
+        ack: presenceDeltas.ackTick,
       } satisfies UpdatePresenceActionType;
 
       return throttle(() => {
@@ -149,14 +248,19 @@ export const CarController = forwardRef<THREE.Group, unknown>(
         newPresence.payload.rot.w = playerRot.w;
         newPresence.payload.wheel.x = controllerVectors.wheelRotation.current;
         newPresence.payload.wheel.y = controllerVectors.visibleSteering.current;
-        newPresence.payload.timestamp = performance.now();
+        newPresence.payload.turbo.charge = controllerVectors.turbo.current.charge;
+        newPresence.payload.turbo.boost = controllerVectors.turbo.current.boost;
+        newPresence.payload.timestamp = serverTime();
+        newPresence.ack = presenceDeltas.ackTick;
 
         // Use MoQ if available, otherwise fallback to WebSocket
         if (moqStream && moqStream.isMoQReady) {
           moqStream.publishGameState(newPresence.payload);
         } else if (!forceMoQ) {
           // Only fallback to WebSocket if not in force MoQ mode
-          party.send(packMessage(newPresence));
+          party.send(
+            packMessage(newPresence, useServerStatus.getState().encoding)
+          );
         } else {
           // In force MoQ mode but MoQ not ready - log error
           console.error("[MoQ Force Mode] Cannot send update - MoQ not ready and WebSocket fallback disabled");
@@ -164,6 +268,33 @@ export const CarController = forwardRef<THREE.Group, unknown>(
       }, 1000 / PLAYER_UPDATE_FPS);
     }, [party, moqStream, forceMoQ]);
 
+    // the server corrects our movement and resolves bumps with other cars
+    useEffect(() => {
+      const controller = new AbortController();
+
+      const messageHandler = (message: ServerMessage) => {
+        switch (message.type) {
+          case "server-correction": {
+            // the server rejected our movement, go back to where it last saw us
+            const { pos } = message.payload.presence;
+            if (pos) controllerVectors.teleport.current = pos;
+            break;
+          }
+          case "car-collision":
+            receiveCarCollision(controllerVectors, party.id, message.payload);
+            break;
+        }
+      };
+
+      onPartyMessage(party, ["server-correction", "car-collision"], messageHandler, {
+        signal: controller.signal,
+      });
+
+      return () => {
+        controller.abort();
+      };
+    }, [party]);
+
     useFrame((_, delta) => {
       if (!groupRef.current) return;
 
@@ -177,16 +308,32 @@ export const CarController = forwardRef<THREE.Group, unknown>(
       updatePosition();
     });
 
+    const reportCollision = useCallback(
+      (id: string) => {
+        party.send(packMessage(createCollisionAction(id)));
+      },
+      [party]
+    );
+
     // joystick controls
     useControlsPeerEvent("connection", () => {
       controllerVectors.activeJoystick.current = true;
     });
 
-    useControlsPeerEvent("disconnected", () => {
+    // a phone that locks its screen stops answering, release its inputs
+    const releaseJoystick = () => {
       if (Object.keys(controlsInstance.connections).length === 0) {
         controllerVectors.activeJoystick.current = false;
+        controllerVectors.joystickThrottle.current = 0;
+        controllerVectors.joystickBrakePressure.current = 0;
+        controllerVectors.joystickAcceleration.current = false;
+        controllerVectors.joystickBrake.current = false;
+        controllerVectors.joystickRotation.current = 0;
       }
-    });
+    };
+
+    useControlsPeerEvent("disconnected", releaseJoystick);
+    useControlsPeerEvent("connection-closed", releaseJoystick);
 
     useOnControlsMessage("steeringAngle", (message: MessagePayload<"steeringAngle", number>) => {
       controllerVectors.joystickRotation.current = message.data;
@@ -200,8 +347,22 @@ export const CarController = forwardRef<THREE.Group, unknown>(
       controllerVectors.joystickBrake.current = message.data;
     });
 
+    useOnControlsMessage("throttle", (message: MessagePayload<"throttle", number>) => {
+      controllerVectors.joystickThrottle.current = clamp(message.data, 0, 1);
+    });
+
+    useOnControlsMessage("brakePressure", (message: MessagePayload<"brakePressure", number>) => {
+      controllerVectors.joystickBrakePressure.current = clamp(message.data, 0, 1);
+    });
+
     return (
-      <CarPhysics vectors={controllerVectors} ref={mergeRefs(ref, groupRef)} />
+      <CarPhysics
+        vectors={controllerVectors}
+        spawn={spawn}
+        color={color}
+        onCarCollision={reportCollision}
+        ref={mergeRefs(ref, groupRef)}
+      />
     );
   }
 );
@@ -210,10 +371,24 @@ CarController.displayName = "CarController";
 
 interface CarPhysicsProps extends RigidBodyProps {
   vectors: CarControllerVectors;
+  spawn?: TrackSpawnType;
+  color?: string;
+  /** The player car reads the keyboard and drives the camera, AI cars only use the vectors */
+  player?: boolean;
+  /** Called when the car touches a remote car, with its player id */
+  onCarCollision?: (id: string) => void;
 }
 
+const noKeyboardControls: Record<GameControls, boolean> = {
+  [GameControls.forward]: false,
+  [GameControls.back]: false,
+  [GameControls.left]: false,
+  [GameControls.right]: false,
+  [GameControls.drift]: false,
+};
+
 export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
-  ({ vectors, ...props }, ref) => {
+  ({ vectors, spawn, color, player = true, onCarCollision, ...props }, ref) => {
     const { rapier, world } = useRapier();
 
     // physics
@@ -232,13 +407,36 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
     const speed = useRef(0);
     const grounded = useRef(false);
 
+    const driftBoost = useMemo(() => new DriftBoost(), []);
+    vectors.turbo.current = driftBoost.state;
+
     const [, getKeyboardControls] = useKeyboardControls<GameControls>();
 
-    useBeforePhysicsStep(() => {
-      const controls = getKeyboardControls();
-      const { forward, back, left, right, drift } = controls;
+    useBeforePhysicsStep((stepWorld) => {
+      const controls = player ? getKeyboardControls() : noKeyboardControls;
+      const analogSteering = vectors.analogSteering.current;
+      // a stick pushed far enough counts as a direction for drifting
+      const left = controls.left || analogSteering < -ANALOG_DRIFT_STEERING;
+      const right = controls.right || analogSteering > ANALOG_DRIFT_STEERING;
+      const drift = controls.drift || vectors.driftButton.current;
+
+      if (vectors.teleport.current) {
+        bodyRef.current.setTranslation(vectors.teleport.current, true);
+        bodyRef.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
+        speed.current = 0;
+        driftBoost.reset();
+        vectors.teleport.current = null;
+      }
+
+      if (vectors.bump.current) {
+        bodyRef.current.applyImpulse(vectors.bump.current, true);
+        speed.current *= VEHICLE_COLLISION.speedFactor;
+        vectors.bump.current = null;
+      }
 
-      const impulse = _impulse.set(0, 0, -speed.current).multiplyScalar(5);
+      const impulse = _impulse
+        .set(0, 0, -speed.current)
+        .multiplyScalar(VEHICLE_PHYSICS.impulseScale);
 
       // check if grounded
       const groundRayResult = world.castRay(
@@ -253,7 +451,11 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
       grounded.current = groundRayResult !== null;
 
       // steering angle
-      vectors.steeringInput.current = Number(left) - Number(right);
+      vectors.steeringInput.current = clamp(
+        Number(controls.left) - Number(controls.right) - analogSteering,
+        -1,
+        1
+      );
       vectors.visibleSteering.current = vectors.steeringInput.current;
       // udpate angle based on direction
       if (impulse.z > 0) {
@@ -296,6 +498,12 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
         driftSteeringTarget = -1;
       }
 
+      // sustained drifts charge the mini-turbo, releasing them boosts
+      const boostStarted = driftBoost.update(
+        driftingLeft.current || driftingRight.current,
+        stepWorld.timestep * 1000
+      );
+
       driftSteeringAngle.current = THREE.MathUtils.lerp(
         driftSteeringAngle.current,
         driftSteeringTarget,
@@ -339,10 +547,30 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
       // acceleration and deceleration
       let speedTarget = 0;
 
-      if (forward || vectors.joystickAcceleration.current) {
-        speedTarget = maxForwardSpeed;
-      } else if (back || vectors.joystickBrake.current) {
-        speedTarget = maxReverseSpeed;
+      // boolean inputs are full throttle, analog ones scale the speed target
+      const throttle = Math.max(
+        Number(controls.forward || vectors.joystickAcceleration.current),
+        vectors.joystickThrottle.current,
+        vectors.analogThrottle.current
+      );
+      const brake = Math.max(
+        Number(controls.back || vectors.joystickBrake.current),
+        vectors.joystickBrakePressure.current,
+        vectors.analogBrake.current
+      );
+
+      if (throttle > 0) {
+        speedTarget = VEHICLE_PHYSICS.maxForwardSpeed * throttle;
+      } else if (brake > 0) {
+        speedTarget = VEHICLE_PHYSICS.maxReverseSpeed * brake;
+      }
+
+      // the boost goes over the max speed, kicking in right away
+      if (driftBoost.state.boost > 0 && speedTarget > 0) {
+        speedTarget = VEHICLE_PHYSICS.maxForwardSpeed * driftBoost.speedFactor;
+      }
+      if (boostStarted) {
+        speed.current = Math.max(speed.current, speedTarget);
       }
 
       speed.current = THREE.MathUtils.lerp(speed.current, speedTarget, 0.03);
@@ -355,17 +583,29 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
       // damping
       bodyRef.current.applyImpulse(
         {
-          x: -bodyRef.current.linvel().x * 1.5,
+          x: -bodyRef.current.linvel().x * VEHICLE_PHYSICS.damping,
           y: -Math.abs(speed.current) * 0.45,
-          z: -bodyRef.current.linvel().z * 1.5,
+          z: -bodyRef.current.linvel().z * VEHICLE_PHYSICS.damping,
         },
         true
       );
     });
 
     useEffect(() => {
-      bodyRef.current.setTranslation(initialPosition, true);
-    }, []);
+      bodyRef.current.setTranslation(spawn?.position ?? initialPosition, true);
+      bodyRef.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
+      speed.current = 0;
+      driftBoost.reset();
+
+      if (spawn) {
+        _spawnQuaternion.copy(spawn.rotation);
+        steeringAngle.current = _spawnEuler.setFromQuaternion(
+          _spawnQuaternion,
+          "YXZ"
+        ).y;
+        steeringAngleQuat.current.setFromAxisAngle(up, steeringAngle.current);
+      }
+    }, [spawn, driftBoost]);
 
     const camera = useThree((state) => state.camera);
     const prevTimestamp = useRef(0);
@@ -427,7 +667,7 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
       vectors.wheelRotation.current -= (speed.current / 10) * delta * 100;
 
       // camera
-      if (!debug) {
+      if (player && !debug) {
         // update lookat
         CAMERA.cameraTargetLookat
           .copy(CAMERA.lookAtOffset)
@@ -463,8 +703,12 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
           mass={CAR_DIMENSIONS.MASS}
           restitution={0}
           ccd
-          name="player"
+          name={player ? "player" : "ai"}
           type="dynamic"
+          onCollisionEnter={({ other }) => {
+            const id = getRemoteCarId(other.rigidBody);
+            if (id) onCarCollision?.(id);
+          }}
         >
           <BallCollider
             args={[CAR_DIMENSIONS.COLLIDER_RADIUS]}
@@ -475,7 +719,8 @@ export const CarPhysics = forwardRef<THREE.Group, CarPhysicsProps>(
         {/* vehicle */}
         <group ref={groupRef}>
           <group ref={ref}>
-            <CarBody v={vectors} />
+            <CarBody v={vectors} color={color} />
+            <DriftSparks turbo={vectors.turbo} />
           </group>
         </group>
       </>
@@ -0,0 +1,135 @@
+/**
+ * Sparks of the drift mini-turbo
+ * The rear wheels spark in the color of the charged tier while drifting,
+ * and the exhaust flames in the boost tier color while boosting.
+ * Particles live in the car space, they are short lived enough to not notice.
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import type { TurboType } from "game-schemas";
+import { WHEEL } from "./constants";
+
+/** Color per tier, index 0 is unused */
+export const DRIFT_TIER_COLORS = ["#ffffff", "#4cc9ff", "#ffa62b", "#d16bff"];
+
+const SPARK_COUNT = 48;
+/** Seconds */
+const SPARK_LIFE = 0.3;
+const SPARKS_PER_SECOND = 90;
+const GROUND_Y = -WHEEL.RADIUS;
+
+const emitters = {
+  wheels: [
+    new THREE.Vector3(-WHEEL.SIDE_OFFSET, GROUND_Y, WHEEL.REAR_OFFSET),
+    new THREE.Vector3(WHEEL.SIDE_OFFSET, GROUND_Y, WHEEL.REAR_OFFSET),
+  ],
+  exhaust: [new THREE.Vector3(0, 0, WHEEL.REAR_OFFSET + 0.02)],
+};
+
+const tierColors = DRIFT_TIER_COLORS.map((color) => new THREE.Color(color));
+
+interface Spark {
+  life: number;
+  velocity: THREE.Vector3;
+  color: THREE.Color;
+}
+
+interface DriftSparksProps {
+  turbo: { current: TurboType };
+}
+
+export function DriftSparks({ turbo }: DriftSparksProps) {
+  const { geometry, positions, colors } = useMemo(() => {
+    const positions = new Float32Array(SPARK_COUNT * 3);
+    const colors = new Float32Array(SPARK_COUNT * 3);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    return { geometry, positions, colors };
+  }, []);
+
+  const sparks = useMemo<Spark[]>(
+    () =>
+      Array.from({ length: SPARK_COUNT }, () => ({
+        life: 0,
+        velocity: new THREE.Vector3(),
+        color: new THREE.Color(),
+      })),
+    []
+  );
+
+  const next = useRef(0);
+  const pending = useRef(0);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((_, delta) => {
+    const { charge, boost } = turbo.current;
+    const tier = boost > 0 ? boost : charge;
+    let alive = false;
+
+    if (tier > 0) {
+      pending.current += SPARKS_PER_SECOND * delta;
+      const sources = boost > 0 ? emitters.exhaust : emitters.wheels;
+
+      for (; pending.current >= 1; pending.current--) {
+        const index = next.current;
+        next.current = (next.current + 1) % SPARK_COUNT;
+
+        const spark = sparks[index];
+        const source = sources[index % sources.length];
+        spark.life = SPARK_LIFE * (0.5 + Math.random() * 0.5);
+        spark.color.copy(tierColors[tier]);
+        // thrown backwards and up, spread sideways
+        spark.velocity.set(
+          (Math.random() - 0.5) * 0.6,
+          Math.random() * 0.4,
+          0.4 + Math.random() * 0.4
+        );
+        positions[index * 3] = source.x;
+        positions[index * 3 + 1] = source.y;
+        positions[index * 3 + 2] = source.z;
+      }
+    } else {
+      pending.current = 0;
+    }
+
+    sparks.forEach((spark, index) => {
+      if (spark.life <= 0) {
+        colors[index * 3] = colors[index * 3 + 1] = colors[index * 3 + 2] = 0;
+        return;
+      }
+      alive = true;
+      spark.life = Math.max(0, spark.life - delta);
+
+      positions[index * 3] += spark.velocity.x * delta;
+      positions[index * 3 + 1] += spark.velocity.y * delta;
+      positions[index * 3 + 2] += spark.velocity.z * delta;
+
+      // additive blending, fading to black fades out
+      const fade = spark.life / SPARK_LIFE;
+      colors[index * 3] = spark.color.r * fade;
+      colors[index * 3 + 1] = spark.color.g * fade;
+      colors[index * 3 + 2] = spark.color.b * fade;
+    });
+
+    if (alive || tier > 0) {
+      geometry.attributes.position.needsUpdate = true;
+      geometry.attributes.color.needsUpdate = true;
+    }
+  });
+
+  return (
+    <points geometry={geometry} frustumCulled={false}>
+      <pointsMaterial
+        size={0.025}
+        vertexColors
+        transparent
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </points>
+  );
+}
@@ -22,7 +22,21 @@ export default function ControlsPage() {
     setError(error);
   });
 
-  if (error) {
+  // the connection drops while the screen is locked
+  const [reconnecting, setReconnecting] = useState(false);
+
+  useControlsPeerEvent("reconnecting", () => {
+    setReconnecting(true);
+  });
+
+  useControlsPeerEvent("reconnected", () => {
+    if (Object.keys(controlsInstance.connections).length > 0) {
+      setReconnecting(false);
+      setError(null);
+    }
+  });
+
+  if (error && !reconnecting) {
     return (
       <div className="flex h-[100svh] items-center justify-center text-center bg-zinc-900 text-white">
         <p className="text-red-500 font-bold text-2xl">{error.message}</p>
@@ -34,15 +48,23 @@ export default function ControlsPage() {
     <div className="bg-zinc-900">
       <OrientationControls
         showInclination
-        onAccelerationChange={(acceleration) =>
-          controlsInstance.sendMessage("acceleration", acceleration)
+        onThrottleChange={(throttle) =>
+          controlsInstance.sendMessage("throttle", throttle)
+        }
+        onBrakePressureChange={(brake) =>
+          controlsInstance.sendMessage("brakePressure", brake)
         }
-        onBreakChange={(brake) => controlsInstance.sendMessage("brake", brake)}
         onSteeringChange={(angle) =>
           controlsInstance.sendMessage("steeringAngle", angle)
         }
         rotationLimit={30}
       />
+      {/* kept mounted so the orientation permission survives */}
+      {reconnecting && (
+        <div className="fixed inset-0 z-10 flex items-center justify-center text-center bg-zinc-900/80 text-white">
+          <p className="text-zinc-400 font-bold text-2xl">Reconnecting...</p>
+        </div>
+      )}
     </div>
   );
 }
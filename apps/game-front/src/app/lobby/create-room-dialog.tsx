@@ -0,0 +1,89 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import {
+  MAX_ROOM_PLAYERS,
+  MIN_ROOM_PLAYERS,
+  RoomSettingsSchema,
+} from "game-schemas";
+import { Button } from "@/app/components/ui/button";
+import { Dialog } from "@/app/components/ui/dialog";
+import { createRoom, createRoomId, setRoomPassword } from "@/lib/rooms";
+
+const DEFAULT_MAX_PLAYERS = 8;
+
+const inputClassName =
+  "h-9 rounded-md border border-zinc-700 bg-zinc-800 px-3 text-zinc-100 outline-none focus:border-zinc-500";
+
+interface CreateRoomDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function CreateRoomDialog({ open, onClose }: CreateRoomDialogProps) {
+  const router = useRouter();
+  const [maxPlayers, setMaxPlayers] = useState(DEFAULT_MAX_PLAYERS);
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const settings = RoomSettingsSchema.safeParse({
+      maxPlayers,
+      password: password || undefined,
+    });
+    if (!settings.success) {
+      setError(settings.error.issues[0]?.message ?? "Invalid settings");
+      return;
+    }
+
+    setPending(true);
+    setError(null);
+    try {
+      const id = createRoomId();
+      await createRoom(id, settings.data);
+      if (settings.data.password) setRoomPassword(id, settings.data.password);
+      router.push(`/room/${id}`);
+    } catch (createError) {
+      console.error(createError);
+      setError("Couldn't create the room, try again");
+      setPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} title="Create room">
+      <form className="flex flex-col gap-4 text-zinc-200" onSubmit={handleSubmit}>
+        <label className="flex flex-col gap-1 text-sm">
+          Max players
+          <input
+            type="number"
+            className={inputClassName}
+            min={MIN_ROOM_PLAYERS}
+            max={MAX_ROOM_PLAYERS}
+            value={maxPlayers}
+            onChange={(e) => setMaxPlayers(Number(e.target.value))}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          Password (optional)
+          <input
+            type="password"
+            className={inputClassName}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </label>
+
+        {error && <span className="text-sm text-red-400">{error}</span>}
+
+        <Button type="submit" disabled={pending}>
+          Create 🏁
+        </Button>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import usePartySocket from "partysocket/react";
+import { Lock, Plus, User } from "lucide-react";
+import {
+  LOBBY_PARTY,
+  LOBBY_ROOM_ID,
+  type LobbyRoomsMessageType,
+  type RoomInfoType,
+} from "game-schemas";
+import { Button } from "@/app/components/ui/button";
+import { getRoomPassword } from "@/lib/rooms";
+import { CreateRoomDialog } from "./create-room-dialog";
+import { RoomPasswordDialog } from "./room-password-dialog";
+
+/** Always offered, even when nobody is racing */
+const DEFAULT_ROOM_ID = "miami";
+
+export function Lobby() {
+  const router = useRouter();
+  const [rooms, setRooms] = useState<RoomInfoType[] | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [passwordRoom, setPasswordRoom] = useState<string | null>(null);
+
+  usePartySocket({
+    host: process.env.NEXT_PUBLIC_PARTY_SOCKET_HOST,
+    party: LOBBY_PARTY,
+    room: LOBBY_ROOM_ID,
+    onMessage(event) {
+      const message = JSON.parse(event.data) as LobbyRoomsMessageType;
+      if (message.type === "lobby-rooms") setRooms(message.payload.rooms);
+    },
+  });
+
+  const joinRoom = (room: RoomInfoType) => {
+    if (room.hasPassword && getRoomPassword(room.id) === null) {
+      setPasswordRoom(room.id);
+      return;
+    }
+    router.push(`/room/${room.id}`);
+  };
+
+  const listedRooms = rooms ?? [];
+  const hasDefaultRoom = listedRooms.some((room) => room.id === DEFAULT_ROOM_ID);
+
+  return (
+    <div className="w-screen min-h-[100svh] flex items-center justify-center bg-[#db2777] p-4">
+      <div className="w-full max-w-lg flex flex-col gap-4 bg-zinc-900/90 text-zinc-200 rounded-lg p-6 border border-zinc-800 shadow-lg">
+        <div className="flex items-center justify-between">
+          <h1 className="text-lg font-medium">Rooms</h1>
+          <Button onClick={() => setCreating(true)}>
+            <Plus size={15} className="mr-1" /> Create room
+          </Button>
+        </div>
+
+        <ul className="flex flex-col gap-2">
+          {!hasDefaultRoom && (
+            <li>
+              <Button
+                variant="outline"
+                className="w-full justify-between"
+                onClick={() => router.push(`/room/${DEFAULT_ROOM_ID}`)}
+              >
+                <span>{DEFAULT_ROOM_ID}</span>
+                <span className="text-zinc-400">Quick race 🏁</span>
+              </Button>
+            </li>
+          )}
+          {listedRooms.map((room) => {
+            const full = room.maxPlayers !== null && room.players >= room.maxPlayers;
+            return (
+              <li key={room.id}>
+                <Button
+                  variant="outline"
+                  className="w-full justify-between"
+                  disabled={full}
+                  onClick={() => joinRoom(room)}
+                >
+                  <span className="flex items-center gap-2">
+                    {room.hasPassword && <Lock size={13} />}
+                    {room.id}
+                  </span>
+                  <span className="flex items-center gap-1 tabular-nums text-zinc-400">
+                    <User size={13} />
+                    {room.players}
+                    {room.maxPlayers !== null && `/${room.maxPlayers}`}
+                  </span>
+                </Button>
+              </li>
+            );
+          })}
+          {rooms === null && (
+            <li className="text-sm text-zinc-500">Loading rooms…</li>
+          )}
+        </ul>
+      </div>
+
+      <CreateRoomDialog open={creating} onClose={() => setCreating(false)} />
+      <RoomPasswordDialog
+        roomId={passwordRoom}
+        onClose={() => setPasswordRoom(null)}
+      />
+    </div>
+  );
+}
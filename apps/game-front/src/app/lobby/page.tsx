@@ -0,0 +1,5 @@
+import { Lobby } from "./lobby";
+
+export default function LobbyPage() {
+  return <Lobby />;
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/app/components/ui/button";
+import { Dialog } from "@/app/components/ui/dialog";
+import { setRoomPassword } from "@/lib/rooms";
+
+interface RoomPasswordDialogProps {
+  /** Room to join, the dialog is closed when null */
+  roomId: string | null;
+  onClose: () => void;
+  /** Called instead of navigating to the room */
+  onSubmit?: () => void;
+  error?: string;
+}
+
+export function RoomPasswordDialog({
+  roomId,
+  onClose,
+  onSubmit,
+  error,
+}: RoomPasswordDialogProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!roomId) return;
+
+    setRoomPassword(roomId, password);
+    if (onSubmit) {
+      onSubmit();
+    } else {
+      router.push(`/room/${roomId}`);
+    }
+  };
+
+  return (
+    <Dialog open={roomId !== null} onClose={onClose} title={`Join ${roomId}`}>
+      <form className="flex flex-col gap-4 text-zinc-200" onSubmit={handleSubmit}>
+        <label className="flex flex-col gap-1 text-sm">
+          Password
+          <input
+            autoFocus
+            type="password"
+            className="h-9 rounded-md border border-zinc-700 bg-zinc-800 px-3 text-zinc-100 outline-none focus:border-zinc-500"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </label>
+
+        {error && <span className="text-sm text-red-400">{error}</span>}
+
+        <Button type="submit" disabled={password.length === 0}>
+          Join 🏁
+        </Button>
+      </form>
+    </Dialog>
+  );
+}
@@ -23,7 +23,7 @@ export default function Home() {
           className="aspect-video w-full max-w-lg max-h-[40svh]"
           alt="Basement React Miami"
         />
-        <Link href="/room/miami">
+        <Link href="/lobby">
           <Button>Start 🏁</Button>
         </Link>
       </div>
@@ -0,0 +1,50 @@
+import { Bot, Minus, Plus } from "lucide-react";
+import {
+  MAX_AI_OPPONENTS,
+  useAiOpponents,
+} from "@/app/components/ai-opponents";
+import { AI_DIFFICULTIES, type AiDifficulty } from "@/lib/ai-driver";
+
+const buttonClassName = "flex items-center hover:text-white disabled:opacity-40";
+
+export function AiOpponentsOverlay() {
+  const { count, difficulty } = useAiOpponents();
+
+  return (
+    <div className="fixed flex bottom-4 gap-2 left-4 z-10 bg-zinc-800/80 text-zinc-200 shadow-md h-10 p-2 items-center justify-center rounded-md border border-zinc-700/50 backdrop-blur-sm">
+      <Bot size={15} strokeWidth={1.5} />
+      <button
+        className={buttonClassName}
+        title="Remove AI opponent"
+        disabled={count === 0}
+        onClick={() => useAiOpponents.setState({ count: count - 1 })}
+      >
+        <Minus size={15} strokeWidth={1.5} />
+      </button>
+      <span className="text-md tabular-nums">{count}</span>
+      <button
+        className={buttonClassName}
+        title="Add AI opponent"
+        disabled={count >= MAX_AI_OPPONENTS}
+        onClick={() => useAiOpponents.setState({ count: count + 1 })}
+      >
+        <Plus size={15} strokeWidth={1.5} />
+      </button>
+      <select
+        className="bg-transparent text-md outline-none"
+        value={difficulty}
+        onChange={(event) =>
+          useAiOpponents.setState({
+            difficulty: event.target.value as AiDifficulty,
+          })
+        }
+      >
+        {Object.keys(AI_DIFFICULTIES).map((level) => (
+          <option key={level} value={level} className="bg-zinc-800">
+            {level}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -13,11 +13,11 @@ export function ControlsMobileOverlay() {
 
   return (
     <OrientationControls
-      onAccelerationChange={(acceleration) =>
-        (controllerVectors.joystickAcceleration.current = acceleration)
+      onThrottleChange={(throttle) =>
+        (controllerVectors.joystickThrottle.current = throttle)
       }
-      onBreakChange={(brake) =>
-        (controllerVectors.joystickBrake.current = brake)
+      onBrakePressureChange={(brake) =>
+        (controllerVectors.joystickBrakePressure.current = brake)
       }
       onSteeringChange={(angle) =>
         (controllerVectors.joystickRotation.current = angle)
@@ -0,0 +1,17 @@
+import { Gamepad } from "lucide-react";
+import { useGamepad } from "@/app/components/gamepad-controls";
+
+export function GamepadOverlay() {
+  const name = useGamepad((s) => s.name);
+  if (!name) return null;
+
+  return (
+    <div
+      className="fixed flex bottom-4 right-16 gap-2 z-10 bg-zinc-800/80 text-zinc-200 shadow-md h-10 px-3 items-center rounded-md border border-zinc-700/50 backdrop-blur-sm"
+      title={name}
+    >
+      <Gamepad size={16} strokeWidth={1.5} className="text-green-400" />
+      <span className="text-sm">Controller connected</span>
+    </div>
+  );
+}
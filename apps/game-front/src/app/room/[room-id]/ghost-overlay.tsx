@@ -0,0 +1,85 @@
+import { useRef } from "react";
+import { Download, Ghost, Upload } from "lucide-react";
+import { setImportedGhost, useGhost } from "@/app/components/ghost";
+import { exportReplay, importReplay } from "@/lib/replay";
+import { formatRaceTime } from "@/lib/time";
+
+const buttonClassName = "flex items-center hover:text-white disabled:opacity-40";
+
+export function GhostOverlay() {
+  const { enabled, personalBest, ghost, lastLapTime } = useGhost();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const downloadPersonalBest = () => {
+    if (!personalBest) return;
+    const blob = new Blob([exportReplay(personalBest)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `ghost-${personalBest.trackId}-${Math.round(personalBest.lapTime)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadGhostFile = async (file: File) => {
+    try {
+      setImportedGhost(importReplay(await file.text()));
+    } catch (error) {
+      console.warn("Invalid ghost replay", error);
+      alert("This file is not a valid ghost replay for this track");
+    }
+  };
+
+  return (
+    <div className="fixed flex top-4 gap-2 right-16 z-10 bg-zinc-800/80 text-zinc-200 shadow-md h-10 p-2 items-center justify-center rounded-md border border-zinc-700/50 backdrop-blur-sm">
+      <button
+        className={buttonClassName}
+        title={enabled ? "Hide ghost" : "Show ghost"}
+        onClick={() => useGhost.setState({ enabled: !enabled })}
+      >
+        <Ghost size={15} strokeWidth={1.5} className={enabled ? "" : "opacity-40"} />
+      </button>
+      <span className="text-md tabular-nums" title="Personal best">
+        PB {personalBest ? formatRaceTime(personalBest.lapTime) : "-:--.---"}
+      </span>
+      {lastLapTime !== null && (
+        <span className="text-md tabular-nums text-zinc-400" title="Last lap">
+          {formatRaceTime(lastLapTime)}
+        </span>
+      )}
+      {ghost && ghost !== personalBest && (
+        <span className="text-md text-zinc-400" title="Imported ghost">
+          vs {ghost.name || "ghost"} {formatRaceTime(ghost.lapTime)}
+        </span>
+      )}
+      <button
+        className={buttonClassName}
+        title="Export personal best"
+        disabled={!personalBest}
+        onClick={downloadPersonalBest}
+      >
+        <Download size={15} strokeWidth={1.5} />
+      </button>
+      <button
+        className={buttonClassName}
+        title="Import ghost"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        <Upload size={15} strokeWidth={1.5} />
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) loadGhostFile(file);
+        }}
+      />
+    </div>
+  );
+}
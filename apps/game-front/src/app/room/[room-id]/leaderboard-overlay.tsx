@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Trophy } from "lucide-react";
+import { getLeaderboardKey } from "game-schemas";
+import { useLeaderboard } from "@/app/components/leaderboard";
+import { useProfile } from "@/app/components/profile";
+import { formatRaceTime } from "@/lib/time";
+
+export function LeaderboardOverlay() {
+  const leaderboard = useLeaderboard((s) => s.leaderboard);
+  const profile = useProfile((s) => s.profile);
+  const [open, setOpen] = useState(false);
+
+  if (!leaderboard) return null;
+
+  const selfKey = profile ? getLeaderboardKey(profile.name) : null;
+
+  return (
+    <div className="fixed flex flex-col top-16 left-4 z-10 bg-zinc-800/80 text-zinc-200 shadow-md p-2 rounded-md border border-zinc-700/50 backdrop-blur-sm min-w-48">
+      <button
+        className="flex gap-2 items-center text-md hover:text-white"
+        onClick={() => setOpen(!open)}
+      >
+        <Trophy size={15} strokeWidth={1.5} />
+        <span className="flex-1 text-left">Leaderboard</span>
+        {open ? <ChevronUp size={15} /> : <ChevronDown size={15} />}
+      </button>
+      {open && (
+        <ol className="mt-2 text-sm tabular-nums">
+          {leaderboard.entries.length === 0 && (
+            <li className="text-zinc-400">No times yet, start a race</li>
+          )}
+          {leaderboard.entries.map((entry, index) => (
+            <li
+              key={getLeaderboardKey(entry.name)}
+              className={`flex gap-4 justify-between ${
+                getLeaderboardKey(entry.name) === selfKey ? "text-white font-bold" : ""
+              }`}
+              title={`${entry.races} races, ${entry.wins} wins`}
+            >
+              <span>
+                {index + 1}. {entry.name}
+              </span>
+              <span>
+                {entry.bestLap !== null ? formatRaceTime(entry.bestLap) : "-:--.---"}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
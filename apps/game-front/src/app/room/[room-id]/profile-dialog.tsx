@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { CAR_COLORS, MAX_PLAYER_NAME_LENGTH } from "game-schemas";
+import { Button } from "@/app/components/ui/button";
+import { Dialog } from "@/app/components/ui/dialog";
+import {
+  createDefaultProfile,
+  saveProfile,
+  useProfile,
+} from "@/app/components/profile";
+import { cn } from "@/lib/utils";
+
+const EMOJIS = ["", "🏎️", "🔥", "⚡", "🌴", "🦩", "🐊", "😎", "👾", "🚀"];
+
+interface ProfileDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ProfileDialog({ open, onClose }: ProfileDialogProps) {
+  const savedProfile = useProfile((s) => s.profile);
+
+  if (!open) return null;
+
+  return (
+    <Dialog
+      open
+      // the profile step can't be skipped on the first visit
+      onClose={savedProfile ? onClose : () => {}}
+      title="Your racer"
+    >
+      <ProfileForm onSaved={onClose} />
+    </Dialog>
+  );
+}
+
+function ProfileForm({ onSaved }: { onSaved: () => void }) {
+  const [profile, setProfile] = useState(
+    () => useProfile.getState().profile ?? createDefaultProfile()
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const errors = saveProfile(profile);
+    if (errors) {
+      setError(errors.issues[0]?.message ?? "Invalid profile");
+      return;
+    }
+    onSaved();
+  };
+
+  return (
+    <form className="flex flex-col gap-4 text-zinc-200" onSubmit={handleSubmit}>
+      <label className="flex flex-col gap-1 text-sm">
+        Name
+        <input
+          autoFocus
+          className="h-9 rounded-md border border-zinc-700 bg-zinc-800 px-3 text-zinc-100 outline-none focus:border-zinc-500"
+          maxLength={MAX_PLAYER_NAME_LENGTH}
+          value={profile.name}
+          onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+        />
+      </label>
+
+      <div className="flex flex-col gap-1 text-sm">
+        Color
+        <div className="flex flex-wrap gap-2">
+          {CAR_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              aria-label={color}
+              className={cn(
+                "w-8 h-8 rounded-full border-2",
+                profile.color === color ? "border-zinc-100" : "border-zinc-700"
+              )}
+              style={{ backgroundColor: color }}
+              onClick={() => setProfile({ ...profile, color })}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1 text-sm">
+        Emoji
+        <div className="flex flex-wrap gap-1">
+          {EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              className={cn(
+                "w-9 h-9 rounded-md text-lg border",
+                profile.emoji === emoji
+                  ? "border-zinc-400 bg-zinc-800"
+                  : "border-transparent hover:bg-zinc-800"
+              )}
+              onClick={() => setProfile({ ...profile, emoji })}
+            >
+              {emoji || "—"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <span className="text-sm text-red-400">{error}</span>}
+
+      <Button type="submit" disabled={profile.name.trim().length === 0}>
+        Race 🏁
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Flag, Timer } from "lucide-react";
+import { useRaceStatus } from "@/app/components/race-status";
+import { serverTime } from "@/app/components/server-clock";
+import { Button } from "@/app/components/ui/button";
+import { formatRaceTime } from "@/lib/time";
+
+const overlayClassName =
+  "fixed flex flex-col top-4 left-1/2 -translate-x-1/2 z-10 bg-zinc-800/80 text-zinc-200 shadow-md p-2 px-4 items-center justify-center rounded-md border border-zinc-700/50 backdrop-blur-sm";
+
+function useServerNow(enabled: boolean) {
+  const [now, setNow] = useState(serverTime);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = setInterval(() => setNow(serverTime()), 50);
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  return now;
+}
+
+export function RaceOverlay() {
+  const { race, selfId, lastLap, results, startRace } = useRaceStatus();
+
+  const running = race?.phase === "countdown" || race?.phase === "racing";
+  const now = useServerNow(running);
+
+  if (!race) return null;
+
+  const self = selfId ? race.racers[selfId] : undefined;
+
+  switch (race.phase) {
+    case "lobby":
+      return (
+        <div className={overlayClassName}>
+          <Button onClick={startRace}>Start race 🏁</Button>
+        </div>
+      );
+    case "countdown": {
+      const remaining = Math.max(0, (race.startsAt ?? now) - now);
+      return (
+        <div className={overlayClassName}>
+          <span className="text-4xl font-bold tabular-nums">
+            {Math.ceil(remaining / 1000) || "GO"}
+          </span>
+        </div>
+      );
+    }
+    case "racing": {
+      if (!self) {
+        return (
+          <div className={overlayClassName}>
+            <span className="text-sm">Race in progress</span>
+          </div>
+        );
+      }
+      const lapStart = lastLap
+        ? (race.startsAt ?? 0) + lastLap.totalTime
+        : race.startsAt ?? now;
+      return (
+        <div className={overlayClassName}>
+          <div className="flex gap-2 items-center">
+            <Flag size={15} strokeWidth={1.5} />
+            <span className="text-md">
+              {self.finishTime !== null
+                ? "Finished"
+                : `Lap ${Math.max(self.lap, 1)}/${race.totalLaps}`}
+            </span>
+            <Timer size={15} strokeWidth={1.5} />
+            <span className="text-md tabular-nums">
+              {formatRaceTime(self.finishTime ?? Math.max(0, now - lapStart))}
+            </span>
+          </div>
+          {self.bestLap !== null && (
+            <span className="text-xs text-zinc-400 tabular-nums">
+              Best {formatRaceTime(self.bestLap)}
+            </span>
+          )}
+        </div>
+      );
+    }
+    case "finished":
+      return (
+        <div className={overlayClassName}>
+          <span className="text-md font-bold">Results</span>
+          <ol className="text-sm tabular-nums">
+            {results?.slice(0, 10).map((result) => (
+              <li key={result.id} className="flex gap-4 justify-between">
+                <span>
+                  {result.position}. {result.name}
+                  {result.id === selfId && " (you)"}
+                </span>
+                <span>
+                  {result.totalTime !== null
+                    ? formatRaceTime(result.totalTime)
+                    : "DNF"}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      );
+  }
+}
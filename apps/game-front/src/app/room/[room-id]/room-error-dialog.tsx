@@ -0,0 +1,48 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useGame } from "@/app/components/game";
+import { Button } from "@/app/components/ui/button";
+import { Dialog } from "@/app/components/ui/dialog";
+import { RoomPasswordDialog } from "@/app/lobby/room-password-dialog";
+import { getRoomPassword } from "@/lib/rooms";
+
+interface RoomErrorDialogProps {
+  roomId: string;
+  /** Connects again, e.g. with a new password */
+  onRetry: () => void;
+}
+
+export function RoomErrorDialog({ roomId, onRetry }: RoomErrorDialogProps) {
+  const router = useRouter();
+  const roomError = useGame((s) => s.roomError);
+
+  switch (roomError) {
+    case "invalid-password":
+      return (
+        <RoomPasswordDialog
+          roomId={roomId}
+          onClose={() => router.push("/lobby")}
+          onSubmit={onRetry}
+          // no password stored means the player came from a shared link
+          error={getRoomPassword(roomId) !== null ? "Wrong password" : undefined}
+        />
+      );
+    case "room-full":
+      return (
+        <Dialog open onClose={() => router.push("/lobby")} title="Room is full">
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={onRetry}>
+              Try again
+            </Button>
+            <Link href="/lobby">
+              <Button>Back to lobby</Button>
+            </Link>
+          </div>
+        </Dialog>
+      );
+    default:
+      return null;
+  }
+}
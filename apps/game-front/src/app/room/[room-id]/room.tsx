@@ -1,17 +1,35 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { ControlsQrOverlay } from "@/app/room/[room-id]/controls-qr-overlay";
-import { GameCanvas } from "@/app/components/game";
+import { GameCanvas, useGame } from "@/app/components/game";
 import { useMedia } from "@/hooks/use-media";
 import { ControlsMobileOverlay } from "./controls-mobile-overlay";
 import { ServerStatusOverlay } from "./server-status-overlay";
 import { useIsMobile } from "@/hooks/use-is-mobile";
 import { GithubOverlay } from "./github-overlay";
+import { RaceOverlay } from "./race-overlay";
+import { ProfileDialog } from "./profile-dialog";
+import { loadStoredProfile, useProfile } from "@/app/components/profile";
+import { NameTagsOverlay } from "@/app/components/name-tags";
+import { RoomErrorDialog } from "./room-error-dialog";
+import { GhostOverlay } from "./ghost-overlay";
+import { LeaderboardOverlay } from "./leaderboard-overlay";
+import { AiOpponentsOverlay } from "./ai-opponents-overlay";
+import { GamepadOverlay } from "./gamepad-overlay";
 
 export function Room({ roomId }: { roomId: string }) {
   const isMobile = useIsMobile();
   const bigScreen = useMedia("(min-width: 1024px)", false);
+  const { loaded, profile } = useProfile();
+  const [editingProfile, setEditingProfile] = useState(false);
+  const roomError = useGame((s) => s.roomError);
+  // remounting the game opens a new connection
+  const [attempt, setAttempt] = useState(0);
 
+  useEffect(() => {
+    loadStoredProfile();
+  }, []);
 
   if (isMobile === undefined) return null;
 
@@ -19,16 +37,35 @@ export function Room({ roomId }: { roomId: string }) {
 
   return (
     <div className="w-screen h-[100svh]">
-      <GameCanvas roomId={roomId} />
+      {profile && !roomError && (
+        <GameCanvas key={attempt} roomId={roomId} profile={profile} />
+      )}
+      <NameTagsOverlay />
 
       {mobileControls && (
         <div className="absolute top-0 left-0 w-full h-full">
           <ControlsMobileOverlay />
         </div>
       )}
-      <ServerStatusOverlay />
+      <ServerStatusOverlay onEditProfile={() => setEditingProfile(true)} />
+      <LeaderboardOverlay />
+      <RaceOverlay />
+      {!mobileControls && <GhostOverlay />}
+      {!mobileControls && <AiOpponentsOverlay />}
       <GithubOverlay />
       {!isMobile && <ControlsQrOverlay />}
+      {!isMobile && <GamepadOverlay />}
+      <RoomErrorDialog
+        roomId={roomId}
+        onRetry={() => {
+          useGame.setState({ roomError: null });
+          setAttempt((a) => a + 1);
+        }}
+      />
+      <ProfileDialog
+        open={loaded && (!profile || editingProfile)}
+        onClose={() => setEditingProfile(false)}
+      />
     </div>
   );
 }
@@ -1,13 +1,48 @@
 import { useServerStatus } from "@/app/components/other-players";
-import { User } from "lucide-react";
+import { useServerClock } from "@/app/components/server-clock";
+import { useProfile } from "@/app/components/profile";
+import { TriangleAlert, User, Wifi } from "lucide-react";
 
-export function ServerStatusOverlay() {
-  const { playerIds } = useServerStatus();
+export function ServerStatusOverlay({
+  onEditProfile,
+}: {
+  onEditProfile: () => void;
+}) {
+  const { playerIds, missedTicks } = useServerStatus();
+  const rtt = useServerClock((s) => s.rtt);
+  const profile = useProfile((s) => s.profile);
 
   return (
     <div className="fixed flex top-4 gap-2 left-4 z-10 bg-zinc-800/80 hover:bg-zinc-700/90 text-zinc-200 shadow-md h-10 p-2 items-center justify-center rounded-md border border-zinc-700/50 backdrop-blur-sm">
       <User size={15} strokeWidth={1.5} />
       <span className="text-md">{playerIds.length + 1}</span>
+      {rtt !== null && (
+        <>
+          <Wifi size={15} strokeWidth={1.5} />
+          <span className="text-md tabular-nums">{Math.round(rtt)}ms</span>
+        </>
+      )}
+      {missedTicks > 0 && (
+        <span
+          className="flex gap-1 items-center text-md tabular-nums text-amber-300"
+          title="Server updates missed"
+        >
+          <TriangleAlert size={15} strokeWidth={1.5} />
+          {missedTicks}
+        </span>
+      )}
+      {profile && (
+        <button
+          className="flex gap-1 items-center text-md hover:text-white"
+          onClick={onEditProfile}
+        >
+          <span
+            className="w-3 h-3 rounded-full border border-zinc-500"
+            style={{ backgroundColor: profile.color }}
+          />
+          {profile.emoji} {profile.name}
+        </button>
+      )}
     </div>
   );
 }
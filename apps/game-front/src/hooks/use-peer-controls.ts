@@ -1,9 +1,16 @@
 import { createPeerParty } from "peerjs-react";
+import { z } from "zod";
 
-type ControlsMessage = {
-  "steeringAngle": number;
-  "acceleration": boolean;
-  "brake": boolean;
+const controlsMessageSchemas = {
+  "steeringAngle": z.number(),
+  /** Sent by older controllers, full throttle while true */
+  "acceleration": z.boolean(),
+  /** Sent by older controllers, full brake while true */
+  "brake": z.boolean(),
+  /** Analog throttle, 0..1 */
+  "throttle": z.number().min(0).max(1),
+  /** Analog brake, 0..1 */
+  "brakePressure": z.number().min(0).max(1),
 }
 
 export const {
@@ -14,4 +21,4 @@ export const {
   useOnMessage: useOnControlsMessage,
   // peer events
   usePeerEvent: useControlsPeerEvent,
-} = createPeerParty<ControlsMessage>()
\ No newline at end of file
+} = createPeerParty({ schemas: controlsMessageSchemas })
@@ -7,21 +7,22 @@
 
 import { useEffect, useState, useRef, useCallback } from "react";
 import usePartySocket from "partysocket/react";
-import { PresenceType } from "game-schemas";
+import { PresenceType, ProfileType } from "game-schemas";
 import { Connection } from "@kixelated/hang/connection";
 import * as Moq from "@kixelated/moq";
 import * as Publish from "@kixelated/hang/publish";
 import * as Watch from "@kixelated/hang/watch";
 import { Room } from "@kixelated/hang/meet";
 
-// Type for partial presence updates (movement data without name)
-export type PresenceUpdate = Omit<PresenceType, 'name'>;
+// Type for partial presence updates (movement data without the profile)
+export type PresenceUpdate = Omit<PresenceType, keyof ProfileType>;
 
 // MoQ participant info from broker
 interface MoQParticipant {
   id: string;
   playerName: string;
   moqPath: string;
+  profile?: ProfileType;
   joinedAt: number;
   lastSeen: number;
 }
@@ -39,7 +40,7 @@ interface BrokerUpdate {
 export interface UseMoQGameStreamOptions {
   roomId: string;
   playerId: string;
-  playerName: string;
+  profile: ProfileType;
   enabled?: boolean;
   forceMoQ?: boolean; // Force MoQ mode - no WebSocket fallback
   onParticipantJoin?: (participant: MoQParticipant) => void;
@@ -63,7 +64,7 @@ export interface MoQGameStreamState {
 export function useMoQGameStream({
   roomId,
   playerId,
-  playerName,
+  profile,
   enabled = true,
   forceMoQ = false,
   onParticipantJoin,
@@ -82,6 +83,7 @@ export function useMoQGameStream({
   const [isMoQReady, setIsMoQReady] = useState(false);
   
   const prevParticipantsRef = useRef<Set<string>>(new Set());
+  const playerName = profile.name;
   const moqPath = `game/${roomId}/${playerId}`;
   const relayUrl = "https://relay.cloudflare.mediaoverquic.com";
   
@@ -117,6 +119,7 @@ export function useMoQGameStream({
         id: playerId,
         playerName,
         moqPath,
+        profile,
       }));
     },
     onMessage(event) {
@@ -168,6 +171,18 @@ export function useMoQGameStream({
       setIsConnected(false);
     },
   });
+
+  // Send the new profile to the broker, joining again replaces the participant
+  useEffect(() => {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({
+      type: "join",
+      id: playerId,
+      playerName: profile.name,
+      moqPath,
+      profile,
+    }));
+  }, [socket, profile, playerId, moqPath]);
   
   // Initialize MoQ connection
   useEffect(() => {
@@ -294,7 +309,10 @@ export function useMoQGameStream({
           if (data) {
             try {
               // Parse the JSON game state from chat message
-              const gameState = JSON.parse(data) as PresenceType;
+              const movement = JSON.parse(data) as PresenceUpdate;
+              // The profile comes from the broker, it can change after the broadcast was created
+              const current = participantsRef.current.find(p => p.id === participant.id) ?? participant;
+              const gameState = { ...current.profile, ...movement } as PresenceType;
               // Directly update the ref - no React state needed
               remoteStatesRef.current.set(participant.id, gameState);
 
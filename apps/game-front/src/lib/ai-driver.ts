@@ -0,0 +1,141 @@
+/**
+ * Drives an AI car along a racing line
+ * It only writes the joystick inputs of the car vectors, the same ones the
+ * phone controls use, so AI cars go through the exact same physics as players.
+ */
+
+import * as THREE from "three";
+import { VEHICLE_MAX_VELOCITY, type Vector2D } from "game-schemas";
+import type { RacingLine } from "./racing-line";
+
+export type AiDifficulty = "easy" | "medium" | "hard";
+
+interface AiDifficultySettings {
+  /** Top speed, as a fraction of the car max velocity */
+  maxSpeed: number;
+  /** Fraction of the max turn rate used to pick the corner speed */
+  cornering: number;
+  /** How far the car drifts off the line, as a fraction of the track half width */
+  lineError: number;
+}
+
+export const AI_DIFFICULTIES: Record<AiDifficulty, AiDifficultySettings> = {
+  easy: { maxSpeed: 0.45, cornering: 0.5, lineError: 0.6 },
+  medium: { maxSpeed: 0.65, cornering: 0.75, lineError: 0.3 },
+  hard: { maxSpeed: 0.85, cornering: 1, lineError: 0.05 },
+};
+
+/** Joystick inputs of CarControllerVectors */
+export interface AiControls {
+  activeJoystick: { current: boolean };
+  /** Degrees, the phone joystick range is -30..30 */
+  joystickRotation: { current: number };
+  joystickAcceleration: { current: boolean };
+  joystickBrake: { current: boolean };
+}
+
+const MAX_JOYSTICK_ROTATION = 30;
+/** Joystick degrees per degree of heading error */
+const STEERING_GAIN = 1.5;
+/** Distance to the point the car aims at, grows with speed */
+const MIN_LOOKAHEAD = 1.5;
+const LOOKAHEAD_TIME = 0.25;
+/** Max heading change of the car, the joystick turns 0.04 rad per 60 Hz physics step */
+const MAX_TURN_RATE = 0.04 * 60;
+/** Corners are checked this far ahead, enough to slow down in time */
+const BRAKING_DISTANCE = 6;
+const CORNER_STEP = 1;
+/** Below this speed while accelerating the car is considered stuck */
+const STUCK_SPEED = 0.5;
+const STUCK_TIME = 1.5;
+const REVERSE_TIME = 1;
+
+const _direction = { x: 0, z: 0 };
+const _aheadDirection = { x: 0, z: 0 };
+
+/** Signed angle from a to b on the XZ plane, positive when b is to the left of a */
+function signedAngle(a: Vector2D, b: Vector2D) {
+  return Math.atan2(a.z * b.x - a.x * b.z, a.x * b.x + a.z * b.z);
+}
+
+export class AiDriver {
+  private index: number | undefined;
+  private stuckTime = 0;
+  private reverseTime = 0;
+  private time = 0;
+  /** Keeps cars with the same difficulty from driving the exact same line */
+  private phase = Math.random() * Math.PI * 2;
+
+  constructor(
+    private line: RacingLine,
+    public difficulty: AiDifficulty
+  ) {}
+
+  /**
+   * @param forward normalized driving direction of the car
+   * @param speed current speed in units per second
+   * @param dt seconds since the last update
+   */
+  update(pos: Vector2D, forward: Vector2D, speed: number, dt: number, controls: AiControls) {
+    const settings = AI_DIFFICULTIES[this.difficulty];
+    const maxSpeed = settings.maxSpeed * VEHICLE_MAX_VELOCITY;
+    this.time += dt;
+
+    this.index = this.line.closestIndex(pos, this.index);
+    const lookahead = MIN_LOOKAHEAD + speed * LOOKAHEAD_TIME;
+    const targetIndex = this.line.advance(this.index, lookahead);
+    const target = this.line.points[targetIndex];
+
+    // wander around the line, less on higher difficulties
+    const offset =
+      Math.sin(this.time * 0.7 + this.phase) *
+      settings.lineError *
+      this.line.halfWidths[targetIndex];
+    this.line.direction(targetIndex, _direction);
+    const targetX = target.x - _direction.z * offset;
+    const targetZ = target.z + _direction.x * offset;
+
+    const toTarget = { x: targetX - pos.x, z: targetZ - pos.z };
+    const error = signedAngle(forward, toTarget);
+
+    controls.activeJoystick.current = true;
+    controls.joystickRotation.current = THREE.MathUtils.clamp(
+      -THREE.MathUtils.radToDeg(error) * STEERING_GAIN,
+      -MAX_JOYSTICK_ROTATION,
+      MAX_JOYSTICK_ROTATION
+    );
+
+    // back off a bit after hitting a wall
+    if (this.reverseTime > 0) {
+      this.reverseTime -= dt;
+      controls.joystickAcceleration.current = false;
+      controls.joystickBrake.current = true;
+      controls.joystickRotation.current *= -1;
+      return;
+    }
+
+    // slow down before corners the car can't turn at its current speed
+    let targetSpeed = maxSpeed;
+    for (let distance = 0; distance < BRAKING_DISTANCE; distance += CORNER_STEP) {
+      this.line.direction(this.line.advance(this.index, distance), _direction);
+      this.line.direction(this.line.advance(this.index, distance + CORNER_STEP), _aheadDirection);
+      const turn = Math.abs(signedAngle(_direction, _aheadDirection)) / CORNER_STEP;
+      if (turn > 0) {
+        targetSpeed = Math.min(targetSpeed, (MAX_TURN_RATE * settings.cornering) / turn);
+      }
+    }
+
+    controls.joystickAcceleration.current = speed < targetSpeed;
+    controls.joystickBrake.current = speed > targetSpeed * 1.3;
+
+    if (controls.joystickAcceleration.current && speed < STUCK_SPEED) {
+      this.stuckTime += dt;
+      if (this.stuckTime > STUCK_TIME) {
+        this.stuckTime = 0;
+        this.reverseTime = REVERSE_TIME;
+      }
+    } else {
+      this.stuckTime = 0;
+    }
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Drift mini-turbo
+ * Drifting charges boost tiers, releasing the drift boosts the car
+ * with the tier reached. Stepped with the physics, times are in ms.
+ */
+
+import { DRIFT_BOOST_TIERS, getDriftTier, type TurboType } from "game-schemas";
+
+export class DriftBoost {
+  private chargeMs = 0;
+  private boostLeftMs = 0;
+  /** Mutated in place, shared with the car vectors */
+  readonly state: TurboType = { charge: 0, boost: 0 };
+
+  /** Speed multiplier of the running boost, 1 when not boosting */
+  get speedFactor() {
+    return this.state.boost > 0 ? DRIFT_BOOST_TIERS[this.state.boost - 1].speed : 1;
+  }
+
+  /** Returns true when a boost starts on this step */
+  update(drifting: boolean, dtMs: number) {
+    let started = false;
+
+    if (drifting) {
+      this.chargeMs += dtMs;
+    } else if (this.chargeMs > 0) {
+      const tier = getDriftTier(this.chargeMs);
+      this.chargeMs = 0;
+      if (tier > 0) {
+        this.state.boost = tier;
+        this.boostLeftMs = DRIFT_BOOST_TIERS[tier - 1].durationMs;
+        started = true;
+      }
+    }
+
+    if (this.state.boost > 0 && !started) {
+      this.boostLeftMs -= dtMs;
+      if (this.boostLeftMs <= 0) this.state.boost = 0;
+    }
+
+    this.state.charge = getDriftTier(this.chargeMs);
+    return started;
+  }
+
+  reset() {
+    this.chargeMs = 0;
+    this.boostLeftMs = 0;
+    this.state.charge = 0;
+    this.state.boost = 0;
+  }
+}
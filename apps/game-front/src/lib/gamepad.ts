@@ -0,0 +1,59 @@
+/**
+ * Gamepad API input mapping
+ * Buttons and axes follow the standard layout, which most controllers expose:
+ * https://w3c.github.io/gamepad/#remapping
+ */
+
+export interface GamepadInput {
+  /** -1 full left to 1 full right */
+  steering: number;
+  /** 0..1 */
+  throttle: number;
+  /** 0..1 */
+  brake: number;
+  drift: boolean;
+}
+
+const STANDARD = {
+  leftStickX: 0,
+  a: 0,
+  rightBumper: 5,
+  leftTrigger: 6,
+  rightTrigger: 7,
+  dpadLeft: 14,
+  dpadRight: 15,
+} as const;
+
+/** Sticks rarely rest at exactly 0 */
+const STICK_DEADZONE = 0.12;
+const TRIGGER_DEADZONE = 0.05;
+
+export function createGamepadInput(): GamepadInput {
+  return { steering: 0, throttle: 0, brake: 0, drift: false };
+}
+
+/** Removes the deadzone and rescales the rest to the full range */
+export function applyDeadzone(value: number, deadzone: number) {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) return 0;
+  return (Math.sign(value) * (Math.min(magnitude, 1) - deadzone)) / (1 - deadzone);
+}
+
+function buttonValue(gamepad: Gamepad, index: number) {
+  const button = gamepad.buttons[index];
+  if (!button) return 0;
+  // some browsers report digital triggers only as pressed
+  return Math.max(button.value, button.pressed ? 1 : 0);
+}
+
+export function readGamepad(gamepad: Gamepad, out: GamepadInput) {
+  const stick = applyDeadzone(gamepad.axes[STANDARD.leftStickX] ?? 0, STICK_DEADZONE);
+  const dpad = buttonValue(gamepad, STANDARD.dpadRight) - buttonValue(gamepad, STANDARD.dpadLeft);
+
+  out.steering = Math.max(-1, Math.min(1, stick + dpad));
+  out.throttle = applyDeadzone(buttonValue(gamepad, STANDARD.rightTrigger), TRIGGER_DEADZONE);
+  out.brake = applyDeadzone(buttonValue(gamepad, STANDARD.leftTrigger), TRIGGER_DEADZONE);
+  out.drift =
+    buttonValue(gamepad, STANDARD.a) > 0.5 || buttonValue(gamepad, STANDARD.rightBumper) > 0.5;
+  return out;
+}
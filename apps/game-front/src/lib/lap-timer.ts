@@ -0,0 +1,82 @@
+/**
+ * Local lap timing for time trials
+ * Uses the same gates as the server race, but with the local clock,
+ * so laps are timed outside of races too.
+ */
+
+import {
+  crossGate,
+  getTrackGates,
+  type TrackDefinitionType,
+  type TrackGateType,
+  type Vector2D,
+} from "game-schemas";
+
+/** Movement between two frames that can only be a respawn or a correction */
+const MAX_FRAME_DISTANCE = 3;
+
+export type LapTimerEvent =
+  | { type: "lap-started"; startedAt: number }
+  | { type: "lap-completed"; lapTime: number; startedAt: number };
+
+export class LapTimer {
+  private gates: TrackGateType[];
+  /** Index of the next gate to cross, 0 is the start line */
+  private nextGate = 0;
+  private lastPos: Vector2D | null = null;
+  private lastTime = 0;
+
+  /** Local time the current lap started, null before crossing the start line */
+  lapStartedAt: number | null = null;
+
+  constructor(track: TrackDefinitionType) {
+    this.gates = getTrackGates(track);
+  }
+
+  reset() {
+    this.nextGate = 0;
+    this.lastPos = null;
+    this.lapStartedAt = null;
+  }
+
+  update(pos: Vector2D, now: number): LapTimerEvent | null {
+    const prevPos = this.lastPos;
+    const prevTime = this.lastTime;
+    this.lastPos = { x: pos.x, z: pos.z };
+    this.lastTime = now;
+    if (!prevPos) return null;
+
+    if (Math.hypot(pos.x - prevPos.x, pos.z - prevPos.z) > MAX_FRAME_DISTANCE) {
+      // teleported, the lap doesn't count
+      this.reset();
+      this.lastPos = { x: pos.x, z: pos.z };
+      return null;
+    }
+
+    const startT = crossGate(this.gates[0], prevPos, pos);
+    if (startT !== null) {
+      const crossedAt = prevTime + (now - prevTime) * startT;
+      const completed = this.lapStartedAt !== null && this.nextGate === 0;
+      const lapStartedAt = this.lapStartedAt;
+
+      // crossing the line with checkpoints missing starts the lap over
+      this.lapStartedAt = crossedAt;
+      this.nextGate = this.gates.length > 1 ? 1 : 0;
+
+      if (completed && lapStartedAt !== null) {
+        return {
+          type: "lap-completed",
+          lapTime: crossedAt - lapStartedAt,
+          startedAt: crossedAt,
+        };
+      }
+      return { type: "lap-started", startedAt: crossedAt };
+    }
+
+    if (this.nextGate > 0 && crossGate(this.gates[this.nextGate], prevPos, pos) !== null) {
+      this.nextGate = (this.nextGate + 1) % this.gates.length;
+    }
+
+    return null;
+  }
+}
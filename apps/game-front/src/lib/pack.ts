@@ -1,7 +1,25 @@
-export function packMessage(object: unknown, _type: 'string' | 'binary' = 'binary'): string {
-  return JSON.stringify(object)
+import {
+  decodePresenceMessage,
+  encodePresenceMessage,
+  isBinaryPresenceMessage,
+} from "game-schemas";
+
+export type MessageEncoding = "string" | "binary";
+
+/** Presence messages use the binary protocol when negotiated, everything else is JSON */
+export function packMessage(
+  object: unknown,
+  type: MessageEncoding = "string"
+): string | Uint8Array {
+  if (type === "binary" && isBinaryPresenceMessage(object)) {
+    return encodePresenceMessage(object);
+  }
+  return JSON.stringify(object);
 }
 
-export function unpackMessage<T>(message: string): T {
-  return JSON.parse(message)
-}
\ No newline at end of file
+export function unpackMessage<T>(message: string | ArrayBuffer): T {
+  if (typeof message === "string") {
+    return JSON.parse(message);
+  }
+  return decodePresenceMessage(message) as T;
+}
@@ -0,0 +1,58 @@
+import type { ServerMessage } from "game-schemas";
+import type { PartySocket } from "partysocket";
+import { unpackMessage } from "./pack";
+
+type ServerMessageType = ServerMessage["type"];
+type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+type MessageHandler = (message: ServerMessage) => void;
+
+/** Handlers by message type of each socket, a socket has a single message listener */
+const socketHandlers = new WeakMap<PartySocket, Map<ServerMessageType, Set<MessageHandler>>>();
+
+function getHandlers(socket: PartySocket) {
+  let handlers = socketHandlers.get(socket);
+  if (handlers) return handlers;
+
+  const byType = new Map<ServerMessageType, Set<MessageHandler>>();
+  // presence messages are the bulk of the traffic, they are decoded once for every handler
+  socket.addEventListener("message", (m: MessageEvent) => {
+    if (byType.size === 0) return;
+    const message = unpackMessage<ServerMessage>(m.data);
+    byType.get(message.type)?.forEach((handler) => handler(message));
+  });
+  handlers = byType;
+  socketHandlers.set(socket, handlers);
+  return handlers;
+}
+
+/**
+ * Runs the handler on the messages of the given types, until the signal aborts
+ * Use it instead of a socket message listener, which would decode the message again
+ */
+export function onPartyMessage<T extends ServerMessageType>(
+  socket: PartySocket,
+  types: readonly T[],
+  handler: (message: ServerMessageOf<T>) => void,
+  { signal }: { signal: AbortSignal }
+) {
+  if (signal.aborted) return;
+
+  const handlers = getHandlers(socket);
+  const listener = handler as MessageHandler;
+  for (const type of types) {
+    let listeners = handlers.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      handlers.set(type, listeners);
+    }
+    listeners.add(listener);
+  }
+
+  signal.addEventListener("abort", () => {
+    for (const type of types) {
+      const listeners = handlers.get(type);
+      listeners?.delete(listener);
+      if (listeners?.size === 0) handlers.delete(type);
+    }
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Racing line of a track, a smooth closed curve through the gate centers
+ * Each gate adds a point before and after its center along the driving
+ * direction, so the line crosses gates straight and follows hairpins.
+ * Sampled once into evenly spaced points so lookups are cheap every frame.
+ */
+
+import * as THREE from "three";
+import { getTrackGates, type TrackDefinitionType, type Vector2D } from "game-schemas";
+
+/** Distance between two points of the line */
+const LINE_SPACING = 0.25;
+/** Points searched around the last known index, enough for a few frames of driving */
+const SEARCH_WINDOW = 40;
+
+export class RacingLine {
+  readonly points: Vector2D[];
+  /** Half width of the track around each point, from the nearest gate */
+  readonly halfWidths: number[];
+  readonly length: number;
+
+  constructor(track: TrackDefinitionType) {
+    const gates = getTrackGates(track);
+    const controlPoints = gates.flatMap(({ position, forward, width }) => {
+      const guide = width / 2;
+      return [
+        new THREE.Vector3(position.x - forward.x * guide, 0, position.z - forward.z * guide),
+        new THREE.Vector3(position.x, 0, position.z),
+        new THREE.Vector3(position.x + forward.x * guide, 0, position.z + forward.z * guide),
+      ];
+    });
+    const curve = new THREE.CatmullRomCurve3(controlPoints, true, "centripetal");
+
+    this.length = curve.getLength();
+    const count = Math.max(gates.length, Math.round(this.length / LINE_SPACING));
+    this.points = curve
+      .getSpacedPoints(count)
+      .slice(0, count)
+      .map(({ x, z }) => ({ x, z }));
+
+    this.halfWidths = this.points.map((point) => {
+      let nearest = gates[0];
+      let nearestDistance = Infinity;
+      for (const gate of gates) {
+        const distance = Math.hypot(gate.position.x - point.x, gate.position.z - point.z);
+        if (distance < nearestDistance) {
+          nearest = gate;
+          nearestDistance = distance;
+        }
+      }
+      return nearest.width / 2;
+    });
+  }
+
+  /** Index of the point closest to `pos`, searching around `hint` when given */
+  closestIndex(pos: Vector2D, hint?: number) {
+    const count = this.points.length;
+    const from = hint === undefined ? 0 : hint - SEARCH_WINDOW;
+    const to = hint === undefined ? count : hint + SEARCH_WINDOW;
+
+    let closest = 0;
+    let closestDistance = Infinity;
+    for (let i = from; i < to; i++) {
+      const index = ((i % count) + count) % count;
+      const point = this.points[index];
+      const distance = (point.x - pos.x) ** 2 + (point.z - pos.z) ** 2;
+      if (distance < closestDistance) {
+        closest = index;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  }
+
+  /** Index `distance` units further along the line */
+  advance(index: number, distance: number) {
+    const count = this.points.length;
+    return (index + Math.round(distance / (this.length / count))) % count;
+  }
+
+  /** Direction of the line at an index, normalized */
+  direction(index: number, out: Vector2D) {
+    const a = this.points[index];
+    const b = this.points[(index + 1) % this.points.length];
+    const length = Math.hypot(b.x - a.x, b.z - a.z) || 1;
+    out.x = (b.x - a.x) / length;
+    out.z = (b.z - a.z) / length;
+    return out;
+  }
+}
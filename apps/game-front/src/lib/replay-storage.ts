@@ -0,0 +1,61 @@
+/**
+ * Personal best laps, one replay per track, kept in IndexedDB
+ * localStorage is too small for the frames and only stores strings.
+ */
+
+import type { Replay } from "./replay";
+
+const DB_NAME = "react-miami-game";
+const DB_VERSION = 1;
+const PERSONAL_BESTS_STORE = "personal-bests";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase() {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PERSONAL_BESTS_STORE, {
+        keyPath: "trackId",
+      });
+    };
+    dbPromise = requestToPromise(request).catch((error) => {
+      // allow retrying, e.g. after the user allowed storage
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+export async function getPersonalBest(trackId: string): Promise<Replay | null> {
+  const db = await openDatabase();
+  const store = db
+    .transaction(PERSONAL_BESTS_STORE, "readonly")
+    .objectStore(PERSONAL_BESTS_STORE);
+  const replay: Replay | undefined = await requestToPromise(store.get(trackId));
+  return replay ?? null;
+}
+
+/** Stores the replay if it beats the current personal best, returns true if it did */
+export async function savePersonalBest(replay: Replay): Promise<boolean> {
+  const current = await getPersonalBest(replay.trackId);
+  if (current && current.lapTime <= replay.lapTime) return false;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(PERSONAL_BESTS_STORE, "readwrite");
+  transaction.objectStore(PERSONAL_BESTS_STORE).put(replay);
+
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  return true;
+}
@@ -0,0 +1,212 @@
+/**
+ * Ghost replays of a single lap
+ * The car transform is sampled at a fixed tick into a flat Float32Array,
+ * so a lap is a few hundred KB at most and can be stored or shared as is.
+ */
+
+import * as THREE from "three";
+import { z } from "zod";
+import { WHEEL_ROTATION_PERIOD } from "game-schemas";
+import type { SnapshotSample } from "./snapshot-buffer";
+
+/** Bump when the frame layout changes, old replays are rejected */
+export const REPLAY_VERSION = 1;
+export const REPLAY_TICK_RATE = 30;
+/** Laps longer than this are not recorded */
+export const MAX_REPLAY_DURATION_MS = 5 * 60 * 1000;
+
+/** pos xyz, rot xyzw, wheel rotation, steering */
+const FRAME_SIZE = 9;
+const TICK_MS = 1000 / REPLAY_TICK_RATE;
+const MAX_FRAMES = Math.ceil(MAX_REPLAY_DURATION_MS / TICK_MS) + 1;
+
+export interface Replay {
+  version: number;
+  trackId: string;
+  /** Name of the player who drove the lap */
+  name: string;
+  lapTime: number;
+  recordedAt: number;
+  tickRate: number;
+  frames: Float32Array;
+}
+
+export interface ReplayFrameInput {
+  position: THREE.Vector3Like;
+  rotation: THREE.QuaternionLike;
+  wheelRotation: number;
+  steering: number;
+}
+
+export class ReplayRecorder {
+  private frames = new Float32Array(MAX_FRAMES * FRAME_SIZE);
+  private frameCount = 0;
+  private startedAt: number | null = null;
+
+  get recording() {
+    return this.startedAt !== null;
+  }
+
+  start(now: number) {
+    this.startedAt = now;
+    this.frameCount = 0;
+  }
+
+  stop() {
+    this.startedAt = null;
+    this.frameCount = 0;
+  }
+
+  /** Records every tick elapsed until `now`, holding the latest state */
+  record(frame: ReplayFrameInput, now: number) {
+    if (this.startedAt === null) return;
+
+    const tick = Math.floor((now - this.startedAt) / TICK_MS);
+    if (tick >= MAX_FRAMES) {
+      // too long to be worth a ghost
+      this.stop();
+      return;
+    }
+
+    while (this.frameCount <= tick) {
+      this.writeFrame(this.frameCount++, frame);
+    }
+  }
+
+  /** Ends the lap, returns null if nothing was recorded */
+  finish(
+    frame: ReplayFrameInput,
+    lap: Pick<Replay, "trackId" | "name" | "lapTime">,
+    now: number
+  ): Replay | null {
+    if (this.startedAt === null) return null;
+
+    this.record(frame, now);
+    const count = this.frameCount;
+    this.stop();
+    if (count < 2) return null;
+
+    return {
+      version: REPLAY_VERSION,
+      ...lap,
+      recordedAt: Date.now(),
+      tickRate: REPLAY_TICK_RATE,
+      frames: this.frames.slice(0, count * FRAME_SIZE),
+    };
+  }
+
+  private writeFrame(index: number, frame: ReplayFrameInput) {
+    const offset = index * FRAME_SIZE;
+    this.frames[offset] = frame.position.x;
+    this.frames[offset + 1] = frame.position.y;
+    this.frames[offset + 2] = frame.position.z;
+    this.frames[offset + 3] = frame.rotation.x;
+    this.frames[offset + 4] = frame.rotation.y;
+    this.frames[offset + 5] = frame.rotation.z;
+    this.frames[offset + 6] = frame.rotation.w;
+    this.frames[offset + 7] = frame.wheelRotation;
+    this.frames[offset + 8] = frame.steering;
+  }
+}
+
+const _rotationA = new THREE.Quaternion();
+const _rotationB = new THREE.Quaternion();
+
+function readRotation(frames: Float32Array, index: number, out: THREE.Quaternion) {
+  const offset = index * FRAME_SIZE + 3;
+  return out.set(frames[offset], frames[offset + 1], frames[offset + 2], frames[offset + 3]);
+}
+
+/** Shortest difference between two wheel rotations */
+function wheelDelta(from: number, to: number) {
+  const half = WHEEL_ROTATION_PERIOD / 2;
+  return ((((to - from + half) % WHEEL_ROTATION_PERIOD) + WHEEL_ROTATION_PERIOD) % WHEEL_ROTATION_PERIOD) - half;
+}
+
+/**
+ * Writes the ghost state `time` ms after the lap started
+ * Returns false once the replay is over
+ */
+export function sampleReplay(replay: Replay, time: number, out: SnapshotSample) {
+  const count = replay.frames.length / FRAME_SIZE;
+  const position = (time / 1000) * replay.tickRate;
+  if (count === 0 || position < 0 || position > count - 1) return false;
+
+  const index = Math.min(Math.floor(position), count - 2);
+  const s = position - index;
+  const a = index * FRAME_SIZE;
+  const b = a + FRAME_SIZE;
+  const frames = replay.frames;
+
+  out.position.set(
+    THREE.MathUtils.lerp(frames[a], frames[b], s),
+    THREE.MathUtils.lerp(frames[a + 1], frames[b + 1], s),
+    THREE.MathUtils.lerp(frames[a + 2], frames[b + 2], s)
+  );
+  out.rotation.slerpQuaternions(
+    readRotation(frames, index, _rotationA),
+    readRotation(frames, index + 1, _rotationB),
+    s
+  );
+  out.wheelRotation = frames[a + 7] + wheelDelta(frames[a + 7], frames[b + 7]) * s;
+  out.steering = THREE.MathUtils.lerp(frames[a + 8], frames[b + 8], s);
+
+  return true;
+}
+
+const ReplayFileSchema = z.object({
+  version: z.number().int(),
+  trackId: z.string(),
+  name: z.string(),
+  lapTime: z.number().positive(),
+  recordedAt: z.number(),
+  tickRate: z.number().positive(),
+  /** Base64 of the frames as little endian float32 */
+  frames: z.string(),
+});
+
+type ReplayFile = z.infer<typeof ReplayFileSchema>;
+
+function encodeFrames(frames: Float32Array) {
+  const view = new DataView(new ArrayBuffer(frames.length * 4));
+  frames.forEach((value, index) => view.setFloat32(index * 4, value, true));
+
+  let binary = "";
+  const bytes = new Uint8Array(view.buffer);
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function decodeFrames(data: string) {
+  const binary = atob(data);
+  if (binary.length % (FRAME_SIZE * 4) !== 0) {
+    throw new Error("Invalid replay frames");
+  }
+
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    view.setUint8(i, binary.charCodeAt(i));
+  }
+
+  const frames = new Float32Array(binary.length / 4);
+  for (let i = 0; i < frames.length; i++) {
+    frames[i] = view.getFloat32(i * 4, true);
+  }
+  return frames;
+}
+
+export function exportReplay(replay: Replay): string {
+  const file: ReplayFile = { ...replay, frames: encodeFrames(replay.frames) };
+  return JSON.stringify(file);
+}
+
+/** Parses an exported replay, throws if it's invalid or from another version */
+export function importReplay(data: string): Replay {
+  const file = ReplayFileSchema.parse(JSON.parse(data));
+  if (file.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${file.version}`);
+  }
+  return { ...file, frames: decodeFrames(file.frames) };
+}
@@ -0,0 +1,74 @@
+import PartySocket from "partysocket";
+import type {
+  CreateRoomRequestType,
+  RoomInfoType,
+  RoomSettingsType,
+} from "game-schemas";
+
+const PASSWORD_STORAGE_PREFIX = "react-miami-game:room-password:";
+
+/** Short random id, readable enough to share */
+export function createRoomId() {
+  const bytes = crypto.getRandomValues(new Uint8Array(4));
+  const suffix = [...bytes].map((b) => b.toString(36).padStart(2, "0")).join("");
+  return `room-${suffix}`;
+}
+
+/** Creates a room on the game server, throws if the id is taken or the settings are invalid */
+export async function createRoom(
+  id: string,
+  settings: RoomSettingsType
+): Promise<RoomInfoType> {
+  const request: CreateRoomRequestType = {
+    type: "create-room",
+    payload: settings,
+  };
+  const response = await PartySocket.fetch(
+    { host: process.env.NEXT_PUBLIC_PARTY_SOCKET_HOST!, room: id },
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to create room: ${response.status}`);
+  }
+  return response.json();
+}
+
+/** Passwords are kept for the browser session, so reloading the room works */
+export function getRoomPassword(id: string) {
+  try {
+    return sessionStorage.getItem(PASSWORD_STORAGE_PREFIX + id);
+  } catch {
+    return null;
+  }
+}
+
+export function setRoomPassword(id: string, password: string) {
+  try {
+    sessionStorage.setItem(PASSWORD_STORAGE_PREFIX + id, password);
+  } catch {
+    // storage not available, the room will ask again
+  }
+}
+
+const SESSION_STORAGE_PREFIX = "react-miami-game:room-session:";
+
+/** Session token of the last connection to a room, resumes the player after a reconnection or reload */
+export function getRoomSession(id: string) {
+  try {
+    return sessionStorage.getItem(SESSION_STORAGE_PREFIX + id);
+  } catch {
+    return null;
+  }
+}
+
+export function setRoomSession(id: string, token: string) {
+  try {
+    sessionStorage.setItem(SESSION_STORAGE_PREFIX + id, token);
+  } catch {
+    // storage not available, only reconnections of this socket resume
+  }
+}
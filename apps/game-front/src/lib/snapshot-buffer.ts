@@ -0,0 +1,154 @@
+/**
+ * Timestamped presence snapshots of a remote player
+ * Remote players are rendered a fixed delay in the past, interpolating
+ * between the two snapshots around the render time.
+ */
+
+import * as THREE from "three";
+import { WHEEL_ROTATION_PERIOD, type PresenceType } from "game-schemas";
+
+/** Render remote players this far in the past, ~1.5 update intervals at 15 Hz */
+export const INTERPOLATION_DELAY_MS = 100;
+/** Stop extrapolating when packets are this late */
+export const MAX_EXTRAPOLATION_MS = 250;
+
+const MAX_SNAPSHOTS = 32;
+
+interface Snapshot {
+  presence: PresenceType;
+  /** receive time - sender timestamp, includes latency and clock difference */
+  offset: number;
+}
+
+export interface SnapshotSample {
+  position: THREE.Vector3;
+  rotation: THREE.Quaternion;
+  wheelRotation: number;
+  steering: number;
+}
+
+export function createSnapshotSample(): SnapshotSample {
+  return {
+    position: new THREE.Vector3(),
+    rotation: new THREE.Quaternion(),
+    wheelRotation: 0,
+    steering: 0,
+  };
+}
+
+const _rotationA = new THREE.Quaternion();
+const _rotationB = new THREE.Quaternion();
+
+/** Shortest difference between two wheel rotations, they wrap in the binary protocol */
+function wheelDelta(from: number, to: number) {
+  const half = WHEEL_ROTATION_PERIOD / 2;
+  return ((((to - from + half) % WHEEL_ROTATION_PERIOD) + WHEEL_ROTATION_PERIOD) % WHEEL_ROTATION_PERIOD) - half;
+}
+
+function hermite(
+  p0: number,
+  v0: number,
+  p1: number,
+  v1: number,
+  duration: number,
+  s: number
+) {
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (
+    (2 * s3 - 3 * s2 + 1) * p0 +
+    (s3 - 2 * s2 + s) * duration * v0 +
+    (-2 * s3 + 3 * s2) * p1 +
+    (s3 - s2) * duration * v1
+  );
+}
+
+export class SnapshotBuffer {
+  private snapshots: Snapshot[] = [];
+
+  /** Latest presence received */
+  get latest(): PresenceType | undefined {
+    return this.snapshots[this.snapshots.length - 1]?.presence;
+  }
+
+  push(presence: PresenceType, receivedAt: number) {
+    const latest = this.latest;
+    // the same state can be delivered more than once
+    if (latest && presence.timestamp <= latest.timestamp) return;
+
+    this.snapshots.push({ presence, offset: receivedAt - presence.timestamp });
+    if (this.snapshots.length > MAX_SNAPSHOTS) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * Maps local time to the sender clock. The smallest offset in the buffer
+   * is the snapshot that arrived fastest, so jitter doesn't move the timeline
+   */
+  private getClockOffset() {
+    let offset = Infinity;
+    for (const snapshot of this.snapshots) {
+      offset = Math.min(offset, snapshot.offset);
+    }
+    return offset;
+  }
+
+  /**
+   * Writes the interpolated state at `renderTime` (local performance.now() ms)
+   * Returns false if there is nothing to render yet
+   */
+  sample(renderTime: number, out: SnapshotSample): boolean {
+    const count = this.snapshots.length;
+    if (count === 0) return false;
+
+    const time = renderTime - this.getClockOffset();
+    const first = this.snapshots[0].presence;
+    const last = this.snapshots[count - 1].presence;
+
+    // not enough history yet, hold the oldest state
+    if (time <= first.timestamp) {
+      out.position.copy(first.pos);
+      out.rotation.copy(first.rot);
+      out.wheelRotation = first.wheel.x;
+      out.steering = first.wheel.y;
+      return true;
+    }
+
+    // packets are late, extrapolate for a bounded time using the last velocity
+    if (time >= last.timestamp) {
+      const elapsed = Math.min(time - last.timestamp, MAX_EXTRAPOLATION_MS) / 1000;
+      out.position.copy(last.vel).multiplyScalar(elapsed).add(last.pos);
+      out.rotation.copy(last.rot);
+      out.wheelRotation = last.wheel.x;
+      out.steering = last.wheel.y;
+      return true;
+    }
+
+    let index = count - 2;
+    while (index > 0 && this.snapshots[index].presence.timestamp > time) {
+      index--;
+    }
+
+    const a = this.snapshots[index].presence;
+    const b = this.snapshots[index + 1].presence;
+    const duration = b.timestamp - a.timestamp;
+    const s = (time - a.timestamp) / duration;
+    const seconds = duration / 1000;
+
+    out.position.set(
+      hermite(a.pos.x, a.vel.x, b.pos.x, b.vel.x, seconds, s),
+      hermite(a.pos.y, a.vel.y, b.pos.y, b.vel.y, seconds, s),
+      hermite(a.pos.z, a.vel.z, b.pos.z, b.vel.z, seconds, s)
+    );
+    out.rotation.slerpQuaternions(
+      _rotationA.copy(a.rot),
+      _rotationB.copy(b.rot),
+      s
+    );
+    out.wheelRotation = a.wheel.x + wheelDelta(a.wheel.x, b.wheel.x) * s;
+    out.steering = THREE.MathUtils.lerp(a.wheel.y, b.wheel.y, s);
+
+    return true;
+  }
+}
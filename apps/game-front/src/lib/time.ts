@@ -0,0 +1,9 @@
+/** Formats a duration in ms as m:ss.mmm */
+export function formatRaceTime(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}.${millis
+    .toString()
+    .padStart(3, "0")}`;
+}
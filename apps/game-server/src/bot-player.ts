@@ -0,0 +1,317 @@
+/**
+ * Simulated player for load testing
+ * Connects to the game room like the browser client does, drives around the
+ * gates of the track and sends presence updates at a fixed rate.
+ */
+
+import {
+  CAR_COLORS,
+  decodePresenceMessage,
+  encodePresenceMessage,
+  getTrackGates,
+  PRESENCE_PROTOCOL_VERSION,
+  PresenceDeltaDecoder,
+  type InitUserActionType,
+  type PingActionType,
+  type PresenceType,
+  type ServerMessage,
+  type TrackDefinitionType,
+  type UpdatePresenceActionType,
+  type Vector2D,
+} from "game-schemas";
+
+const PING_INTERVAL_MS = 2000;
+const MOQ_HEARTBEAT_INTERVAL_MS = 5000;
+
+export interface BotOptions {
+  /** host:port of the PartyKit server */
+  host: string;
+  room: string;
+  password?: string;
+  /** Presence updates per second */
+  rate: number;
+  /** Driving speed in units per second */
+  speed: number;
+  /** Use the binary presence protocol when the server supports it */
+  binary: boolean;
+  /** Also join the MoQ broker of the room */
+  moq: boolean;
+}
+
+/** Counters shared by every bot, reset by the reporter */
+export interface BotStats {
+  connected: number;
+  messagesSent: number;
+  messagesReceived: number;
+  bytesSent: number;
+  bytesReceived: number;
+  corrections: number;
+  errors: number;
+  /** Round trip times of the pings answered since the last report */
+  rtts: number[];
+}
+
+export function createBotStats(): BotStats {
+  return {
+    connected: 0,
+    messagesSent: 0,
+    messagesReceived: 0,
+    bytesSent: 0,
+    bytesReceived: 0,
+    corrections: 0,
+    errors: 0,
+    rtts: [],
+  };
+}
+
+function getMessageSize(data: string | ArrayBuffer | Uint8Array) {
+  return typeof data === "string" ? Buffer.byteLength(data) : data.byteLength;
+}
+
+function getSocketUrl(options: BotOptions, party: string, id: string) {
+  const protocol = options.host.startsWith("localhost") || options.host.startsWith("127.") ? "ws" : "wss";
+  const url = new URL(`${protocol}://${options.host}/parties/${party}/${options.room}`);
+  url.searchParams.set("_pk", id);
+  if (options.password) url.searchParams.set("password", options.password);
+  return url.toString();
+}
+
+/** Closed loop through the start line and every checkpoint */
+class TrackPath {
+  private points: Vector2D[];
+  private lengths: number[] = [];
+  readonly length: number;
+
+  constructor(track: TrackDefinitionType) {
+    this.points = getTrackGates(track).map(({ position }) => ({ x: position.x, z: position.z }));
+    let length = 0;
+    for (let i = 0; i < this.points.length; i++) {
+      const a = this.points[i];
+      const b = this.points[(i + 1) % this.points.length];
+      length += Math.hypot(b.x - a.x, b.z - a.z);
+      this.lengths.push(length);
+    }
+    this.length = length;
+  }
+
+  /** Position and driving direction `distance` units along the loop */
+  sample(distance: number) {
+    const d = ((distance % this.length) + this.length) % this.length;
+    let index = 0;
+    while (this.lengths[index] < d) index++;
+
+    const a = this.points[index];
+    const b = this.points[(index + 1) % this.points.length];
+    const segmentLength = Math.hypot(b.x - a.x, b.z - a.z);
+    const start = this.lengths[index] - segmentLength;
+    const t = segmentLength > 0 ? (d - start) / segmentLength : 0;
+
+    return {
+      x: a.x + (b.x - a.x) * t,
+      z: a.z + (b.z - a.z) * t,
+      dirX: segmentLength > 0 ? (b.x - a.x) / segmentLength : 0,
+      dirZ: segmentLength > 0 ? (b.z - a.z) / segmentLength : -1,
+    };
+  }
+}
+
+export class BotPlayer {
+  private socket: WebSocket | null = null;
+  private moqSocket: WebSocket | null = null;
+  private timers: ReturnType<typeof setInterval>[] = [];
+  private binary = false;
+  private distance: number;
+  private wheelRotation = 0;
+  private lastUpdateAt = 0;
+  /** Rebuilds sync-presence like the browser client, its acknowledgements drive the server deltas */
+  private deltas = new PresenceDeltaDecoder();
+  private path: TrackPath;
+  private open = false;
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+    track: TrackDefinitionType,
+    private options: BotOptions,
+    private stats: BotStats,
+    /** Start position along the track, 0..1, so bots don't overlap */
+    start: number,
+  ) {
+    this.path = new TrackPath(track);
+    this.distance = start * this.path.length;
+  }
+
+  connect() {
+    const socket = new WebSocket(getSocketUrl(this.options, "main", this.id));
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+
+    socket.addEventListener("open", () => {
+      this.open = true;
+      this.stats.connected++;
+      this.lastUpdateAt = Date.now();
+      this.send(this.getInitMessage());
+      this.timers.push(setInterval(() => this.update(), 1000 / this.options.rate));
+      this.timers.push(setInterval(() => this.ping(), PING_INTERVAL_MS));
+    });
+    socket.addEventListener("message", (event) => this.onMessage(event.data));
+    socket.addEventListener("close", () => this.onClose());
+    socket.addEventListener("error", () => {
+      this.stats.errors++;
+    });
+
+    if (this.options.moq) this.connectMoQ();
+  }
+
+  close() {
+    this.onClose();
+    this.socket?.close();
+    this.moqSocket?.close();
+  }
+
+  private onClose() {
+    if (this.open) this.stats.connected--;
+    this.open = false;
+    this.deltas.reset();
+    for (const timer of this.timers) clearInterval(timer);
+    this.timers = [];
+  }
+
+  /** Joins the broker the same way the MoQ client does, game data itself goes over MoQ */
+  private connectMoQ() {
+    const socket = new WebSocket(getSocketUrl(this.options, "moqbroker", this.id));
+    this.moqSocket = socket;
+
+    socket.addEventListener("open", () => {
+      this.sendMoQ({
+        type: "join",
+        id: this.id,
+        playerName: this.name,
+        moqPath: `game/${this.options.room}/${this.id}`,
+        profile: this.getProfile(),
+      });
+      this.timers.push(
+        setInterval(() => this.sendMoQ({ type: "heartbeat", id: this.id }), MOQ_HEARTBEAT_INTERVAL_MS),
+      );
+    });
+    socket.addEventListener("message", (event) => {
+      this.stats.messagesReceived++;
+      this.stats.bytesReceived += getMessageSize(event.data);
+    });
+    socket.addEventListener("error", () => {
+      this.stats.errors++;
+    });
+  }
+
+  /** Not flagged as `bot`, the server skips the presence fanout of client hosted AI cars */
+  private getProfile() {
+    let hash = 0;
+    for (let i = 0; i < this.id.length; i++) hash = (hash * 31 + this.id.charCodeAt(i)) | 0;
+    return {
+      name: this.name,
+      color: CAR_COLORS[Math.abs(hash) % CAR_COLORS.length],
+      emoji: "🤖",
+    };
+  }
+
+  private getPresence(now: number, dt: number): PresenceType {
+    const point = this.path.sample(this.distance);
+    // cars drive towards their local -Z
+    const yaw = Math.atan2(-point.dirX, -point.dirZ);
+    const speed = dt > 0 ? this.options.speed : 0;
+    this.wheelRotation -= speed * dt * 10;
+
+    return {
+      ...this.getProfile(),
+      pos: { x: point.x, y: 0.01, z: point.z },
+      vel: { x: point.dirX * speed, y: 0, z: point.dirZ * speed },
+      rot: { x: 0, y: Math.sin(yaw / 2), z: 0, w: Math.cos(yaw / 2) },
+      wheel: { x: this.wheelRotation, y: 0 },
+      timestamp: now,
+    };
+  }
+
+  private getInitMessage(): InitUserActionType {
+    return {
+      type: "init-user",
+      payload: this.getPresence(Date.now(), 0),
+      protocol: this.options.binary ? PRESENCE_PROTOCOL_VERSION : undefined,
+    };
+  }
+
+  private update() {
+    const now = Date.now();
+    const dt = (now - this.lastUpdateAt) / 1000;
+    this.lastUpdateAt = now;
+    this.distance += this.options.speed * dt;
+
+    const { name, color, emoji, ...movement } = this.getPresence(now, dt);
+    const message: UpdatePresenceActionType = {
+      type: "update-presence",
+      payload: movement,
+      ack: this.deltas.ackTick,
+    };
+    this.send(message);
+  }
+
+  private ping() {
+    const message: PingActionType = {
+      type: "ping",
+      payload: { clientTime: performance.now() },
+    };
+    this.send(message);
+  }
+
+  private send(message: InitUserActionType | UpdatePresenceActionType | PingActionType) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    const data =
+      this.binary && message.type === "update-presence"
+        ? encodePresenceMessage(message)
+        : JSON.stringify(message);
+    this.socket.send(data);
+    this.stats.messagesSent++;
+    this.stats.bytesSent += getMessageSize(data);
+  }
+
+  private sendMoQ(message: Record<string, unknown>) {
+    if (this.moqSocket?.readyState !== WebSocket.OPEN) return;
+    const data = JSON.stringify(message);
+    this.moqSocket.send(data);
+    this.stats.messagesSent++;
+    this.stats.bytesSent += getMessageSize(data);
+  }
+
+  private onMessage(data: string | ArrayBuffer) {
+    this.stats.messagesReceived++;
+    this.stats.bytesReceived += getMessageSize(data);
+
+    let message: ServerMessage;
+    try {
+      message = (typeof data === "string" ? JSON.parse(data) : decodePresenceMessage(data)) as ServerMessage;
+    } catch {
+      this.stats.errors++;
+      return;
+    }
+
+    switch (message.type) {
+      case "protocol":
+        this.binary = message.payload.version === PRESENCE_PROTOCOL_VERSION;
+        break;
+      case "sync-presence":
+        // a delta against an unknown baseline isn't acknowledged, the server falls back to a full snapshot
+        if (!this.deltas.decode(message.payload)) this.stats.errors++;
+        break;
+      case "pong":
+        this.stats.rtts.push(performance.now() - message.payload.clientTime);
+        break;
+      case "server-correction":
+        // the bots should never be corrected, it means the validation is too strict
+        this.stats.corrections++;
+        break;
+      case "room-error":
+        console.error(`[${this.name}] rejected: ${message.payload.reason}`);
+        this.stats.errors++;
+        break;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Load testing CLI, fills a room with simulated players
+ *
+ *   pnpm run bots --players 50 --room load-test --duration 60
+ *
+ * Runs against `partykit dev` by default, see --help for the options.
+ */
+
+import { parseArgs } from "node:util";
+import { getTrackDefinition } from "game-schemas";
+import { BotPlayer, createBotStats, type BotOptions, type BotStats } from "./bot-player";
+
+const HELP = `Usage: pnpm run bots [options]
+
+  --host <host>        PartyKit host (default: localhost:1999)
+  --room <id>          Room to join (default: load-test)
+  --password <pw>      Room password
+  --players <n>        Number of bots (default: 10)
+  --rate <hz>          Presence updates per second per bot (default: 15)
+  --speed <u/s>        Driving speed (default: 6)
+  --ramp <ms>          Delay between bot connections (default: 50)
+  --duration <s>       Stop after this many seconds, 0 runs until Ctrl+C (default: 0)
+  --report <s>         Seconds between reports (default: 5)
+  --json               Send JSON presence instead of the binary protocol
+  --moq                Also join the MoQ broker of the room
+  --help               Show this help
+`;
+
+function parseOptions() {
+  const args = process.argv.slice(2);
+  // pnpm forwards the `--` separator
+  if (args[0] === "--") args.shift();
+
+  const { values } = parseArgs({
+    args,
+    options: {
+      host: { type: "string", default: "localhost:1999" },
+      room: { type: "string", default: "load-test" },
+      password: { type: "string" },
+      players: { type: "string", default: "10" },
+      rate: { type: "string", default: "15" },
+      speed: { type: "string", default: "6" },
+      ramp: { type: "string", default: "50" },
+      duration: { type: "string", default: "0" },
+      report: { type: "string", default: "5" },
+      json: { type: "boolean", default: false },
+      moq: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  const number = (name: keyof typeof values, min: number) => {
+    const value = Number(values[name]);
+    if (!Number.isFinite(value) || value < min) {
+      throw new Error(`--${name} must be a number >= ${min}`);
+    }
+    return value;
+  };
+
+  return {
+    help: values.help,
+    players: Math.floor(number("players", 1)),
+    ramp: number("ramp", 0),
+    duration: number("duration", 0),
+    report: number("report", 1),
+    bot: {
+      host: values.host,
+      room: values.room,
+      password: values.password,
+      rate: number("rate", 1),
+      speed: number("speed", 0),
+      binary: !values.json,
+      moq: values.moq,
+    } satisfies BotOptions,
+  };
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function formatBytes(bytes: number) {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(2)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/** Prints the rates since the last report and resets the counters */
+function report(stats: BotStats, seconds: number, total: number) {
+  const rtts = [...stats.rtts].sort((a, b) => a - b);
+  const average = rtts.reduce((sum, rtt) => sum + rtt, 0) / (rtts.length || 1);
+
+  console.log(
+    [
+      `bots ${stats.connected}/${total}`,
+      `sent ${(stats.messagesSent / seconds).toFixed(0)} msg/s ${formatBytes(stats.bytesSent / seconds)}/s`,
+      `recv ${(stats.messagesReceived / seconds).toFixed(0)} msg/s ${formatBytes(stats.bytesReceived / seconds)}/s`,
+      `rtt avg ${average.toFixed(1)} p95 ${percentile(rtts, 0.95).toFixed(1)} max ${(rtts[rtts.length - 1] ?? 0).toFixed(1)} ms`,
+      `corrections ${stats.corrections}`,
+      `errors ${stats.errors}`,
+    ].join(" | "),
+  );
+
+  Object.assign(stats, createBotStats(), { connected: stats.connected });
+}
+
+async function main() {
+  const options = parseOptions();
+  if (options.help) {
+    console.log(HELP);
+    return;
+  }
+
+  const track = getTrackDefinition(options.bot.room);
+  const stats = createBotStats();
+  const bots: BotPlayer[] = [];
+  const runId = Math.random().toString(36).slice(2, 6);
+
+  console.log(
+    `Connecting ${options.players} bots to ${options.bot.host}, room ${options.bot.room}, ` +
+      `${options.bot.rate} updates/s, ${options.bot.binary ? "binary" : "JSON"}${options.bot.moq ? " + MoQ broker" : ""}`,
+  );
+
+  let lastReportAt = Date.now();
+  const reportInterval = setInterval(() => {
+    const now = Date.now();
+    report(stats, (now - lastReportAt) / 1000, bots.length);
+    lastReportAt = now;
+  }, options.report * 1000);
+
+  let stopping = false;
+  const stop = () => {
+    if (stopping) return;
+    stopping = true;
+    clearInterval(reportInterval);
+    report(stats, (Date.now() - lastReportAt) / 1000, bots.length);
+    for (const bot of bots) bot.close();
+    // give the sockets a moment to send their close frames
+    setTimeout(() => process.exit(0), 500);
+  };
+
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+  if (options.duration > 0) setTimeout(stop, options.duration * 1000);
+
+  for (let i = 0; i < options.players && !stopping; i++) {
+    const bot = new BotPlayer(
+      `bot-${runId}-${i}`,
+      `Bot ${i + 1}`,
+      track,
+      options.bot,
+      stats,
+      i / options.players,
+    );
+    bots.push(bot);
+    bot.connect();
+    if (options.ramp > 0) await new Promise((resolve) => setTimeout(resolve, options.ramp));
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * Car to car collisions
+ * Clients detect contacts with the remote cars they render, but a report is
+ * only accepted when the positions known by the server could touch. The bump
+ * impulse is computed here from the validated velocities, never by the client.
+ */
+
+import { VEHICLE_COLLISION, type PresenceType } from "game-schemas";
+import { getMaxSpeed, LATENCY_SLACK_MS } from "./validation";
+
+type Vector3 = PresenceType["pos"];
+
+/** Client presence update interval, they send at 15hz */
+const CLIENT_UPDATE_INTERVAL_MS = 1000 / 15;
+/**
+ * Longest time a car may have moved since its last update
+ * A car idle for longer is where the server last saw it, it can't be bumped from afar
+ */
+export const MAX_COLLISION_ELAPSED_MS = LATENCY_SLACK_MS + 2 * CLIENT_UPDATE_INTERVAL_MS;
+
+/** Last known state of a car involved in a collision */
+export interface CollisionCar {
+  presence: PresenceType;
+  /** Server time of its last accepted presence update */
+  updatedAt: number;
+}
+
+/** Same key for both orders of the pair, so both reports count as one bump */
+export function getCollisionKey(a: string, b: string) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Checks a reported collision between `a` and `b`
+ * Returns the impulse for `a`, `b` gets the opposite, or null when rejected
+ */
+export function resolveCollision(a: CollisionCar, b: CollisionCar, now: number): Vector3 | null {
+  const dx = a.presence.pos.x - b.presence.pos.x;
+  const dz = a.presence.pos.z - b.presence.pos.z;
+  const distance = Math.hypot(dx, dz);
+
+  // both cars may have moved since their last update
+  const elapsed = Math.min(now - Math.min(a.updatedAt, b.updatedAt) + LATENCY_SLACK_MS, MAX_COLLISION_ELAPSED_MS);
+  const travel = Math.min(
+    Math.hypot(a.presence.vel.x, a.presence.vel.z) + Math.hypot(b.presence.vel.x, b.presence.vel.z),
+    getMaxSpeed(a.presence) + getMaxSpeed(b.presence),
+  ) * (elapsed / 1000);
+  if (distance > VEHICLE_COLLISION.radius * 2 + travel) return null;
+
+  // push the cars apart along the line between them
+  const normalX = distance > 0 ? dx / distance : 1;
+  const normalZ = distance > 0 ? dz / distance : 0;
+  const closingSpeed = -(
+    (a.presence.vel.x - b.presence.vel.x) * normalX +
+    (a.presence.vel.z - b.presence.vel.z) * normalZ
+  );
+  const impulse = Math.min(
+    VEHICLE_COLLISION.maxImpulse,
+    Math.max(VEHICLE_COLLISION.minImpulse, closingSpeed * VEHICLE_COLLISION.impulseScale),
+  );
+
+  return { x: normalX * impulse, y: 0, z: normalZ * impulse };
+}
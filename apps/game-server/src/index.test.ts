@@ -0,0 +1,361 @@
+import type * as Party from "partykit/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_ROOM_PLAYERS, MIAMI_TRACK, type PresenceType, type ServerMessage, type UserType } from "game-schemas";
+import GameServer from "./index";
+import { RACE_COUNTDOWN_MS } from "./race";
+import { SESSION_GRACE_MS } from "./session";
+
+/** Durable storage of a room, values are cloned like the real one does */
+class MemoryStorage {
+  values = new Map<string, unknown>();
+  alarm: number | null = null;
+
+  async get<T>(key: string) {
+    const value = this.values.get(key);
+    return (value === undefined ? undefined : structuredClone(value)) as T | undefined;
+  }
+
+  async put(key: string, value: unknown) {
+    this.values.set(key, structuredClone(value));
+  }
+
+  async delete(key: string) {
+    return this.values.delete(key);
+  }
+
+  async getAlarm() {
+    return this.alarm;
+  }
+
+  async setAlarm(time: number) {
+    this.alarm = time;
+  }
+}
+
+/** Connection whose state survives hibernation, like a serialized attachment */
+class TestConnection {
+  state: UserType | null = null;
+  sent: ServerMessage[] = [];
+
+  constructor(readonly id: string) {}
+
+  setState(state: UserType) {
+    this.state = structuredClone(state);
+    return this.state;
+  }
+
+  send(message: string) {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close() {}
+
+  /** Messages of a type received since the last call */
+  take<T extends ServerMessage["type"]>(type: T) {
+    const messages = this.sent.filter(
+      (message): message is Extract<ServerMessage, { type: T }> => message.type === type,
+    );
+    this.sent = [];
+    return messages;
+  }
+}
+
+interface TestRoom {
+  storage: MemoryStorage;
+  connections: Map<string, TestConnection>;
+}
+
+/**
+ * Room handed to the server, an alarm wakes it up without its id or the
+ * other parties, reading them throws like on PartyKit
+ */
+function createRoom({ storage, connections }: TestRoom, { alarm = false, id = "test-room" } = {}) {
+  const lobbyFetch = vi.fn(async () => new Response("{}"));
+  const room = {
+    get id() {
+      if (alarm) throw new Error("room.id is not available in onAlarm");
+      return id;
+    },
+    env: {},
+    storage,
+    getConnections: () => connections.values(),
+    getConnection: (id: string) => connections.get(id),
+    get context() {
+      if (alarm) throw new Error("context is not available in onAlarm");
+      return { parties: { lobby: { get: () => ({ fetch: lobbyFetch }) } } };
+    },
+  };
+  return room as unknown as Party.Room;
+}
+
+/** A new server instance on the same storage and connections, as after a wake up */
+async function startServer(testRoom: TestRoom, options?: { alarm?: boolean; id?: string }) {
+  const server = new GameServer(createRoom(testRoom, options));
+  await server.onStart();
+  return server;
+}
+
+function createPresence(name: string, x: number, z: number): PresenceType {
+  return {
+    name,
+    color: "#ff0000",
+    emoji: "",
+    pos: { x, y: 0.01, z },
+    vel: { x: 0, y: 0, z: 0 },
+    rot: { x: 0, y: 0, z: 0, w: 1 },
+    wheel: { x: 0, y: 0 },
+    timestamp: Date.now(),
+  };
+}
+
+/** Lets the storage writes the server doesn't await settle */
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function advance(ms: number) {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+function requestCreateRoom(server: GameServer, maxPlayers: number) {
+  return server.onRequest(
+    new Request("http://localhost/parties/main/test-room", {
+      method: "POST",
+      body: JSON.stringify({ type: "create-room", payload: { maxPlayers, password: "secret" } }),
+    }) as unknown as Party.Request,
+  );
+}
+
+async function join(server: GameServer, testRoom: TestRoom, id: string, x = 0, z = 0) {
+  const connection = new TestConnection(id);
+  testRoom.connections.set(id, connection);
+  const ctx = { request: new Request(`http://localhost/parties/main/test-room?password=secret`) };
+  await server.onConnect(connection as unknown as Party.Connection, ctx as unknown as Party.ConnectionContext);
+  send(server, connection, { type: "init-user", payload: createPresence(id, x, z) });
+  await flush();
+  return connection;
+}
+
+async function leave(server: GameServer, testRoom: TestRoom, connection: TestConnection) {
+  testRoom.connections.delete(connection.id);
+  await server.onClose(connection as unknown as Party.Connection<UserType>);
+  await flush();
+}
+
+function send(server: GameServer, connection: TestConnection, message: unknown) {
+  void server.onMessage(JSON.stringify(message), connection as unknown as Party.Connection<UserType>);
+}
+
+/** Drives a car one second later, the server accepts the distance a car covers in that time */
+async function drive(server: GameServer, connection: TestConnection, x: number, z: number) {
+  advance(1000);
+  send(server, connection, { type: "update-presence", payload: { pos: { x, y: 0.01, z } } });
+  await flush();
+}
+
+/** Fires the pending alarm like PartyKit does, on a server woken up for it */
+async function fireAlarm(testRoom: TestRoom) {
+  const alarm = testRoom.storage.alarm;
+  expect(alarm).not.toBeNull();
+  vi.setSystemTime(alarm!);
+  testRoom.storage.alarm = null;
+
+  const server = await startServer(testRoom, { alarm: true });
+  await server.onAlarm();
+  await flush();
+  return server;
+}
+
+function getRacer(server: GameServer, id: string) {
+  return server.race.getSnapshot().racers.find((racer) => racer.id === id);
+}
+
+describe("GameServer hibernation", () => {
+  let testRoom: TestRoom;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1_700_000_000_000);
+    testRoom = { storage: new MemoryStorage(), connections: new Map() };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rebuilds the room from the stored race, sessions and settings and the connection states", async () => {
+    const server = await startServer(testRoom);
+    const created = await requestCreateRoom(server, 4);
+    expect(created.status).toBe(201);
+
+    const driver = await join(server, testRoom, "driver");
+    const dropped = await join(server, testRoom, "dropped", -0.45, 0.3);
+    send(server, driver, { type: "start-race" });
+    advance(RACE_COUNTDOWN_MS);
+
+    // start line, then the first checkpoint which sends no race message
+    await drive(server, driver, 0, 0.2);
+    await drive(server, driver, 0, -1.5);
+    await drive(server, driver, 5.17, -11);
+    await drive(server, driver, 5.17, -14);
+    expect(getRacer(server, "driver")).toMatchObject({ lap: 1, nextCheckpoint: 2, checkpointsPassed: 2 });
+
+    await leave(server, testRoom, dropped);
+
+    const woken = await startServer(testRoom);
+    expect(woken.created).toBe(true);
+    expect(woken.settings.maxPlayers).toBe(4);
+    expect(woken.settings.passwordHash).toBe(server.settings.passwordHash);
+    expect(woken.race.phase).toBe("racing");
+    expect(getRacer(woken, "driver")).toMatchObject({ lap: 1, nextCheckpoint: 2, checkpointsPassed: 2 });
+    expect([...woken.sessions.values()].map((session) => session.playerId)).toEqual(["dropped"]);
+    expect(Object.keys(woken.getAllServerPresence().payload.users)).toEqual(["driver", "dropped"]);
+
+    // the driver goes on from the next checkpoint, with the validation state of its connection
+    await drive(woken, driver, -7, -14);
+    expect(getRacer(woken, "driver")).toMatchObject({ nextCheckpoint: 3, checkpointsPassed: 3 });
+    expect(driver.take("server-correction")).toEqual([]);
+  });
+
+  it("handles an alarm on a cold start, without the room id or the other parties", async () => {
+    const server = await startServer(testRoom);
+    const driver = await join(server, testRoom, "driver");
+    const dropped = await join(server, testRoom, "dropped", -0.45, 0.3);
+    send(server, driver, { type: "start-race" });
+    await flush();
+    await leave(server, testRoom, dropped);
+    driver.take("race-state");
+
+    // the countdown ends while the room hibernates
+    const woken = await fireAlarm(testRoom);
+    expect(woken.track.id).toBe(MIAMI_TRACK.id);
+    expect(woken.race.phase).toBe("racing");
+    expect(driver.take("race-state").map((message) => message.payload.phase)).toEqual(["racing"]);
+
+    // then the dropped player doesn't come back in time
+    expect(testRoom.storage.alarm).toBe(Date.now() - RACE_COUNTDOWN_MS + SESSION_GRACE_MS);
+    const expired = await fireAlarm(testRoom);
+    expect([...expired.sessions.values()]).toEqual([]);
+    expect(await testRoom.storage.get("sessions")).toEqual([]);
+    expect(driver.take("player-removed").map((message) => message.payload.id)).toEqual(["dropped"]);
+  });
+
+  it("throws when an alarm wakes up a room that never stored its id", async () => {
+    const server = new GameServer(createRoom(testRoom, { alarm: true }));
+    await expect(server.onStart()).rejects.toThrow("Room id is unknown");
+  });
+});
+
+describe("GameServer room creation", () => {
+  let testRoom: TestRoom;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1_700_000_000_000);
+    testRoom = { storage: new MemoryStorage(), connections: new Map() };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("caps the players of a created room", async () => {
+    const server = await startServer(testRoom);
+    expect((await requestCreateRoom(server, 2)).status).toBe(201);
+    await join(server, testRoom, "first");
+    await join(server, testRoom, "second", -0.45, 0.3);
+
+    const third = await join(server, testRoom, "third", 0.45, 0.3);
+    expect(third.take("room-error").map((message) => message.payload.reason)).toEqual(["room-full"]);
+  });
+
+  it("has no cap in a room nobody created", async () => {
+    const server = await startServer(testRoom, { id: MIAMI_TRACK.id });
+    for (let i = 0; i <= MAX_ROOM_PLAYERS; i++) {
+      const connection = await join(server, testRoom, `player-${i}`, (i % 8) * 0.1, Math.floor(i / 8) * 0.1);
+      expect(connection.take("room-error")).toEqual([]);
+    }
+    expect(server.getRoomInfo()).toMatchObject({ players: MAX_ROOM_PLAYERS + 1, maxPlayers: null });
+  });
+
+  it("rejects the track rooms", async () => {
+    const server = await startServer(testRoom, { id: MIAMI_TRACK.id });
+    expect((await requestCreateRoom(server, 4)).status).toBe(403);
+    expect(await testRoom.storage.get("settings")).toBeUndefined();
+  });
+
+  it("rejects an id that was already used, after everyone left", async () => {
+    const server = await startServer(testRoom);
+    const player = await join(server, testRoom, "player");
+    await leave(server, testRoom, player);
+
+    const woken = await startServer(testRoom);
+    expect((await requestCreateRoom(woken, 4)).status).toBe(409);
+    expect(await testRoom.storage.get("settings")).toBeUndefined();
+  });
+});
+
+describe("GameServer alarm scheduling", () => {
+  let testRoom: TestRoom;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // halfway through a tick
+    vi.setSystemTime(1_700_000_000_010);
+    testRoom = { storage: new MemoryStorage(), connections: new Map() };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("schedules presence ticks on the tick boundaries", async () => {
+    const server = await startServer(testRoom);
+    const driver = await join(server, testRoom, "driver");
+    const viewer = await join(server, testRoom, "viewer", -0.45, 0.3);
+
+    await drive(server, driver, 0, -1);
+    const tickAt = server.broadcastAt!;
+    expect(tickAt).toBe(server.getTickStart(server.getTick(tickAt)));
+    expect(tickAt).toBeGreaterThan(Date.now());
+    expect(testRoom.storage.alarm).toBe(tickAt);
+
+    viewer.take("sync-presence");
+    const woken = await fireAlarm(testRoom);
+    const [sync] = viewer.take("sync-presence");
+    expect(sync.payload.tick).toBe(woken.getTick(tickAt));
+    expect(woken.getTick(tickAt - 1)).toBe(sync.payload.tick - 1);
+    expect(sync.payload.users.driver.pos).toMatchObject({ x: 0, z: -1 });
+  });
+
+  it("keeps the alarm at the earliest of the tick, race timer and session expiry", async () => {
+    const server = await startServer(testRoom);
+    const driver = await join(server, testRoom, "driver");
+    const dropped = await join(server, testRoom, "dropped", -0.45, 0.3);
+
+    send(server, driver, { type: "start-race" });
+    await flush();
+    const startsAt = server.race.startsAt!;
+    expect(testRoom.storage.alarm).toBe(startsAt);
+
+    // a later session expiry doesn't delay the countdown
+    await leave(server, testRoom, dropped);
+    const expiresAt = Date.now() + SESSION_GRACE_MS;
+    expect(testRoom.storage.alarm).toBe(startsAt);
+
+    // an earlier tick moves the alarm forward
+    advance(100);
+    send(server, driver, { type: "update-presence", payload: { pos: { x: 0, y: 0.01, z: -0.5 } } });
+    await flush();
+    expect(testRoom.storage.alarm).toBe(server.broadcastAt);
+    expect(server.broadcastAt).toBeLessThan(startsAt);
+
+    await fireAlarm(testRoom);
+    expect(testRoom.storage.alarm).toBe(startsAt);
+    await fireAlarm(testRoom);
+    expect(testRoom.storage.alarm).toBe(expiresAt);
+    const woken = await fireAlarm(testRoom);
+    expect(testRoom.storage.alarm).toBeNull();
+    expect(woken.alarmAt).toBeNull();
+  });
+});
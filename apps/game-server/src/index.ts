@@ -1,113 +1,485 @@
 import type * as Party from "partykit/server";
-import { type UserType, type SyncPresenceType, PresenceType, InitUserAction, UpdatePresenceAction, UpdatePresenceActionType, InitUserActionType, PlayerAddedMessageType, PlayerRemovedMessageType, PullServerPresenceMessageType } from "game-schemas";
+import { type UserType, type SyncPresenceType, PresenceType, InitUserAction, UpdatePresenceAction, UpdatePresenceActionType, InitUserActionType, PlayerAddedMessageType, PlayerRemovedMessageType, PullServerPresenceMessageType, StartRaceAction, getTrackDefinition, type ProtocolMessageType, PingAction, type PongMessageType, PRESENCE_PROTOCOL_VERSION, isBinaryPresenceMessage, encodePresenceMessage, decodePresenceMessage, type TrackDefinitionType, type ServerCorrectionMessageType, CreateRoomRequest, LOBBY_PARTY, LOBBY_ROOM_ID, TRACKS, type RoomErrorMessageType, type RoomInfoType, type RoomUpdateRequestType, LEADERBOARD_SIZE, LeaderboardQuerySchema, type LeaderboardEntryType, type LeaderboardUpdatedMessageType, CollisionAction, type CollisionActionType, type CarCollisionMessageType, VEHICLE_COLLISION, type PlayerDisconnectedMessageType, type PlayerResumedMessageType, type SessionMessageType } from "game-schemas";
 import { z } from "zod";
-import { createThrottle } from "./utils";
+import { CORS_HEADERS, jsonResponse } from "./utils";
+import { Race, type RaceMessage, type RaceSnapshot } from "./race";
+import { InterestManager, type InterestTarget } from "./interest";
+import { createPresenceValidation, isInsideBounds, validatePresenceUpdate } from "./validation";
+import { getLeaderboardStorageKey, Leaderboard } from "./leaderboard";
+import { getCollisionKey, resolveCollision } from "./collision";
+import { createSessionToken, SessionStore, type StoredSessions } from "./session";
 
 const objectValidation = z.object({
   type: z.string(),
   payload: z.any(),
 })
 
+/** Presence ticks per second, a room env can override it with SERVER_UPDATE_FPS */
 const SERVER_UPDATE_FPS = 30
 
-// import { decode, encode } from 'cbor-x';
-
-// export function packMessage(object: unknown, type: 'string' | 'binary' = 'binary'): string | Buffer {
-//   if (type === 'string') {
-//     return JSON.stringify(object)
-//   }
-
-//   return encode(object)
-// }
-
-// export function unpackMessage<T>(message: string | Buffer): T {
-//   if (typeof message === 'string') {
-//     return JSON.parse(message)
-//   } else {
-//     try {
-//       return decode(message)
-//     } catch (e) {
-//       console.log(message);
-//       console.log(e);
-//       throw e;
-//     }
-//   }
-// }
-
-function packMessage(object: unknown, _type: 'string' | 'binary' = 'binary'): string {
+function getTickMs(env: Party.Room["env"]) {
+  const fps = Number(env.SERVER_UPDATE_FPS)
+  return 1000 / (Number.isFinite(fps) && fps > 0 ? fps : SERVER_UPDATE_FPS)
+}
+
+const SETTINGS_STORAGE_KEY = "settings"
+/**
+ * The room id can't be read when an alarm wakes the room up, it's kept in
+ * storage once the room is used, which also tells a used id from a new one
+ */
+const ROOM_ID_STORAGE_KEY = "room-id"
+const RACE_STORAGE_KEY = "race"
+const SESSIONS_STORAGE_KEY = "sessions"
+
+/** Room settings as stored, rooms that were never created have no cap nor password */
+interface StoredRoomSettings {
+  maxPlayers?: number
+  passwordHash?: string
+}
+
+async function hashPassword(roomId: string, password: string) {
+  const bytes = new TextEncoder().encode(`${roomId}:${password}`)
+  const digest = await crypto.subtle.digest("SHA-256", bytes)
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+function packMessage(object: unknown, type: 'string' | 'binary' = 'string'): string | Uint8Array {
+  if (type === 'binary' && isBinaryPresenceMessage(object)) {
+    return encodePresenceMessage(object)
+  }
   return JSON.stringify(object)
 }
 
-function unpackMessage<T>(message: string): T {
-  return JSON.parse(message)
+function unpackMessage<T>(message: string | ArrayBufferLike): T {
+  if (typeof message === 'string') {
+    return JSON.parse(message)
+  }
+  return decodePresenceMessage(message as ArrayBuffer) as T
 }
 
+/**
+ * Game room, it hibernates between messages
+ * Anything kept in memory is lost when that happens: player state lives in
+ * the connection state, the race and dropped players in the room storage,
+ * and timed work (presence ticks, race timers, session expiry) uses alarms.
+ * Viewers of the interest manager start over with a full presence after a
+ * wake up, and bump cooldowns are short enough to be lost.
+ */
 export default class GameServer implements Party.Server {
 
-  constructor(readonly room: Party.Room) {
-  }
+  track!: TrackDefinitionType
+  race!: Race
+  leaderboard!: Leaderboard
+  interest = new InterestManager()
+  /** Server time of the last bump per pair of cars */
+  collisions = new Map<string, number>()
+  /** Players whose connection dropped, waiting for a reconnection */
+  sessions = new SessionStore()
+  settings: StoredRoomSettings = {}
+  /** True once a player created the room with its settings */
+  created = false
+  /** True once the room got a connection or was created, its id can't be created anymore */
+  used = false
+  /** Duration of a presence tick in ms */
+  tickMs = 1000 / SERVER_UPDATE_FPS
+  /** Last presence tick flushed, ticks are counted from the server clock so they survive hibernation */
+  lastTick = 0
+  /** Server time of the next presence tick, null when nothing is waiting to be sent */
+  broadcastAt: number | null = null
+  /** Time of the scheduled alarm, null when there is none */
+  alarmAt: number | null = null
+
+  constructor(readonly room: Party.Room) {}
 
 
   static options = {
     hibernate: true
   }
 
-  sendToAll = (message: string | ArrayBufferLike) => {
+  async onStart() {
+    const roomId = await this.getRoomId()
+    this.used = await this.room.storage.get<string>(ROOM_ID_STORAGE_KEY) !== undefined
+    this.tickMs = getTickMs(this.room.env)
+    this.track = getTrackDefinition(roomId)
+    this.race = new Race(this.track)
+    this.leaderboard = new Leaderboard(this.track.id)
+    this.alarmAt = await this.room.storage.getAlarm()
+
+    const race = await this.room.storage.get<RaceSnapshot>(RACE_STORAGE_KEY)
+    if (race) {
+      this.race.restore(race)
+    }
+
+    const sessions = await this.room.storage.get<StoredSessions>(SESSIONS_STORAGE_KEY)
+    if (sessions) {
+      this.sessions = new SessionStore(sessions)
+    }
+
+    const settings = await this.room.storage.get<StoredRoomSettings>(SETTINGS_STORAGE_KEY)
+    if (settings) {
+      this.settings = settings
+      this.created = true
+    }
+
+    const entries = await this.room.storage.get<LeaderboardEntryType[]>(getLeaderboardStorageKey(this.track.id))
+    if (entries) {
+      this.leaderboard = new Leaderboard(this.track.id, entries)
+    }
+  }
+
+  /** Reads the room id, from storage when an alarm woke the room up */
+  async getRoomId(): Promise<string> {
+    try {
+      return this.room.id
+    } catch {
+      const id = await this.room.storage.get<string>(ROOM_ID_STORAGE_KEY)
+      if (id === undefined) throw new Error("[GameServer] Room id is unknown")
+      return id
+    }
+  }
+
+  /** Stores the room id the first time the room is used, alarms are only set after that */
+  async markUsed() {
+    if (this.used) return
+    this.used = true
+    await this.room.storage.put(ROOM_ID_STORAGE_KEY, this.room.id)
+  }
+
+  /** Alarms survive hibernation, a single one is kept at the earliest pending work */
+  async scheduleAlarm() {
+    const times = [this.broadcastAt, this.race.getNextTimerAt(), this.sessions.getNextExpiry()]
+    let next: number | null = null
+    for (const time of times) {
+      if (time !== null && (next === null || time < next)) next = time
+    }
+    if (next === null) return
+    if (this.alarmAt !== null && this.alarmAt <= next) return
+
+    this.alarmAt = next
+    try {
+      await this.room.storage.setAlarm(next)
+    } catch (error) {
+      this.alarmAt = null
+      console.error("[GameServer] Failed to set alarm:", error)
+    }
+  }
+
+  async onAlarm() {
+    this.alarmAt = null
+    const now = Date.now()
+
+    // the pending tick is lost when hibernating, the interest manager skips what viewers already have
+    if (this.broadcastAt === null || now >= this.broadcastAt) {
+      this.tick(now)
+    }
+
+    this.sendRaceMessages(this.race.update(now))
+    this.expireSessions()
+    await this.scheduleAlarm()
+  }
+
+  async saveRace() {
+    this.race.unsavedProgress = false
+    try {
+      await this.room.storage.put(RACE_STORAGE_KEY, this.race.getSnapshot())
+    } catch (error) {
+      console.error("[GameServer] Failed to store race:", error)
+    }
+  }
+
+  async saveSessions() {
+    try {
+      await this.room.storage.put(SESSIONS_STORAGE_KEY, this.sessions.toJSON())
+    } catch (error) {
+      console.error("[GameServer] Failed to store sessions:", error)
+    }
+  }
+
+  async onRequest(request: Party.Request): Promise<Response> {
+    if (request.method === "OPTIONS") {
+      return new Response(null, { headers: CORS_HEADERS })
+    }
+
+    const url = new URL(request.url)
+    if (url.pathname.endsWith("/leaderboard")) {
+      return this.onLeaderboardRequest(request, url)
+    }
+
+    switch (request.method) {
+      case "GET":
+        return jsonResponse(this.getRoomInfo())
+      case "POST": {
+        const createRoom = CreateRoomRequest.safeParse(await request.json().catch(() => null))
+        if (!createRoom.success) return jsonResponse({ error: "Invalid room settings" }, 400)
+        // track rooms are shared by everyone, and a used id keeps its players
+        if (TRACKS[this.room.id]) {
+          return jsonResponse({ error: "Track rooms can't be created" }, 403)
+        }
+        if (this.created || this.used || [...this.room.getConnections()].length > 0) {
+          return jsonResponse({ error: "Room already exists" }, 409)
+        }
+
+        const { maxPlayers, password } = createRoom.data.payload
+        this.settings = {
+          maxPlayers,
+          passwordHash: password ? await hashPassword(this.room.id, password) : undefined,
+        }
+        this.created = true
+        await this.markUsed()
+        await this.room.storage.put(SETTINGS_STORAGE_KEY, this.settings)
+        await this.updateLobby()
+        return jsonResponse(this.getRoomInfo(), 201)
+      }
+      default:
+        return jsonResponse({ error: "Method not allowed" }, 405)
+    }
+  }
+
+  /** GET /leaderboard?track=&limit= and DELETE /leaderboard?track= to reset it */
+  async onLeaderboardRequest(request: Party.Request, url: URL): Promise<Response> {
+    const query = LeaderboardQuerySchema.safeParse(Object.fromEntries(url.searchParams))
+    if (!query.success) return jsonResponse({ error: "Invalid leaderboard query" }, 400)
+
+    const trackId = query.data.track ?? this.track.id
+    const storageKey = getLeaderboardStorageKey(trackId)
+
+    switch (request.method) {
+      case "GET": {
+        if (trackId === this.track.id) {
+          return jsonResponse(this.leaderboard.toJSON(query.data.limit))
+        }
+        const entries = await this.room.storage.get<LeaderboardEntryType[]>(storageKey)
+        return jsonResponse(new Leaderboard(trackId, entries).toJSON(query.data.limit))
+      }
+      case "DELETE": {
+        // resetting is disabled unless the deployment sets a token
+        const token = this.room.env.LEADERBOARD_ADMIN_TOKEN
+        if (typeof token !== "string" || token.length === 0) {
+          return jsonResponse({ error: "Leaderboard reset is disabled" }, 403)
+        }
+        if (request.headers.get("Authorization") !== `Bearer ${token}`) {
+          return jsonResponse({ error: "Unauthorized" }, 401)
+        }
+
+        await this.room.storage.delete(storageKey)
+        if (trackId === this.track.id) {
+          this.leaderboard.reset()
+          this.sendToAll(packMessage(this.getLeaderboardMessage(), 'string'))
+        }
+        return jsonResponse({ trackId, entries: [] })
+      }
+      default:
+        return jsonResponse({ error: "Method not allowed" }, 405)
+    }
+  }
+
+  getLeaderboardMessage(): LeaderboardUpdatedMessageType {
+    return {
+      type: "leaderboard-updated",
+      payload: this.leaderboard.toJSON(LEADERBOARD_SIZE),
+    }
+  }
+
+  /** Records server computed times, then stores and broadcasts the leaderboard if it changed */
+  async updateLeaderboard(messages: RaceMessage[]) {
+    const now = Date.now()
+    let changed = false
+
+    for (const message of messages) {
+      switch (message.type) {
+        case "lap-completed": {
+          const presence = this.room.getConnection<UserType>(message.payload.id)?.state?.presence
+          // AI opponents race but don't get on the leaderboard
+          if (presence && !presence.bot && this.leaderboard.recordLap(presence.name, message.payload.lapTime, now)) {
+            changed = true
+          }
+          break
+        }
+        case "race-results": {
+          const results = message.payload.results.filter(
+            (result) => !this.room.getConnection<UserType>(result.id)?.state?.presence?.bot,
+          )
+          if (this.leaderboard.recordRace(results, now)) {
+            changed = true
+          }
+          break
+        }
+      }
+    }
+
+    if (!changed) return
+    this.sendToAll(packMessage(this.getLeaderboardMessage(), 'string'))
+    try {
+      await this.room.storage.put(getLeaderboardStorageKey(this.track.id), this.leaderboard.getEntries())
+    } catch (error) {
+      console.error("[GameServer] Failed to store leaderboard:", error)
+    }
+  }
+
+  getRoomInfo(excludeId?: string): RoomInfoType {
+    let players = 0
+    for (const connection of this.room.getConnections()) {
+      if (connection.id !== excludeId) players++
+    }
+    return {
+      id: this.room.id,
+      players,
+      maxPlayers: this.settings.maxPlayers ?? null,
+      hasPassword: this.settings.passwordHash !== undefined,
+      updatedAt: Date.now(),
+    }
+  }
+
+  /** Reports the player count to the lobby, the room list is only informative so errors are logged */
+  async updateLobby(excludeId?: string) {
+    const message = {
+      type: "room-update",
+      payload: this.getRoomInfo(excludeId),
+    } satisfies RoomUpdateRequestType
+    try {
+      await this.room.context.parties[LOBBY_PARTY].get(LOBBY_ROOM_ID).fetch({
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${this.room.env.LOBBY_SECRET}`,
+        },
+        body: JSON.stringify(message),
+      })
+    } catch (error) {
+      console.error("[GameServer] Failed to update lobby:", error)
+    }
+  }
+
+  /** Checks the password and player cap, returns the reason to reject the connection */
+  async getJoinError(connection: Party.Connection, ctx: Party.ConnectionContext): Promise<RoomErrorMessageType["payload"]["reason"] | null> {
+    if (this.settings.passwordHash !== undefined) {
+      const password = new URL(ctx.request.url).searchParams.get("password") ?? ""
+      if (await hashPassword(this.room.id, password) !== this.settings.passwordHash) {
+        return "invalid-password"
+      }
+    }
+    const { maxPlayers } = this.settings
+    if (maxPlayers !== undefined && this.getRoomInfo(connection.id).players >= maxPlayers) {
+      return "room-full"
+    }
+    return null
+  }
+
+  sendToAll = (message: string | ArrayBufferLike | ArrayBufferView) => {
     for (const connection of this.room.getConnections<UserType>()) {
       connection.send(message);
     }
   }
 
-  updateUsers = createThrottle(
+  /** Sends a presence message using the encoding negotiated by the connection */
+  sendPresence(connection: Party.Connection<UserType>, message: SyncPresenceType) {
+    const type = connection.state?.protocol === PRESENCE_PROTOCOL_VERSION ? 'binary' : 'string'
+    connection.send(packMessage(message, type));
+  }
+
+  /**
+   * Tick of a server time
+   * tick * tickMs isn't exact, the tolerance keeps a boundary time on its own tick
+   */
+  getTick(time: number) {
+    return Math.floor(time / this.tickMs + 1e-3)
+  }
+
+  /** Server time a tick starts at, in whole ms like the clock and alarms */
+  getTickStart(tick: number) {
+    return Math.ceil(tick * this.tickMs)
+  }
+
+  /** Schedules the next presence tick, changes are always flushed on a tick boundary */
+  updateUsers() {
+    if (this.broadcastAt !== null) return;
+
+    const tick = Math.max(this.getTick(Date.now()), this.lastTick) + 1
+    this.broadcastAt = this.getTickStart(tick)
+    void this.scheduleAlarm()
+  }
+
+  /** Flushes the presence changes, and keeps ticking while some are left for later ticks */
+  tick(now: number) {
+    this.broadcastAt = null
+    const tick = this.getTick(now)
+    if (tick <= this.lastTick) {
+      // alarms can fire a bit early, flush on the next tick instead
+      this.updateUsers()
+      return
+    }
+    this.lastTick = tick
 
-    () => {
+    if (this.sendPresenceUpdates(tick)) {
+      this.broadcastAt = this.getTickStart(tick + 1)
+    }
+  }
 
-      const presenceMessage = JSON.stringify(this.getPresenceMessage());
-      this.sendToAll(presenceMessage);
-    },
-    1000 / SERVER_UPDATE_FPS
-  );
 
+  public async onConnect(connection: Party.Connection, ctx: Party.ConnectionContext): Promise<void> {
+    await this.markUsed();
+    const joinError = await this.getJoinError(connection, ctx);
+    if (joinError) {
+      const message = {
+        type: "room-error",
+        payload: { reason: joinError },
+      } satisfies RoomErrorMessageType
+      connection.send(packMessage(message, 'string'));
+      connection.close(4000, joinError);
+      return;
+    }
 
-  public onConnect(connection: Party.Connection, _ctx: Party.ConnectionContext): void | Promise<void> {
     // send current state to this new user
     const message = this.getAllServerPresence();
     connection.send(packMessage(message, 'string'));
+    for (const session of this.sessions.values()) {
+      connection.send(packMessage(this.getPlayerDisconnectedMessage(session.playerId), 'string'));
+    }
+    this.interest.addViewer(connection.id, this.getInterestTargets(), Date.now());
+    connection.send(packMessage(this.race.getStateMessage(Date.now()), 'string'));
+    connection.send(packMessage(this.getLeaderboardMessage(), 'string'));
+    await this.updateLobby();
   }
 
-  private markSynced(connection: Party.Connection<UserType>) {
-    connection.setState((prevState) => {
-      if (!prevState) throw new Error("No previous state");
-      return {
-        ...prevState,
-        shouldSyncPresence: false,
-        shouldSyncMovement: false,
-      }
-    })
+  sendRaceMessages(messages: RaceMessage[]) {
+    if (messages.length === 0) {
+      // checkpoints between laps change the racers silently
+      if (this.race.unsavedProgress) void this.saveRace();
+      return;
+    }
+    for (const message of messages) {
+      this.sendToAll(packMessage(message, 'string'));
+    }
+    void this.updateLeaderboard(messages);
+    void this.saveRace();
+    void this.scheduleAlarm();
   }
 
-  getPresenceMessage(): SyncPresenceType {
-    const users: SyncPresenceType['payload']['users'] = {};
+  getInterestTargets(): InterestTarget[] {
+    const targets: InterestTarget[] = [];
     for (const connection of this.room.getConnections<UserType>()) {
       const userState = connection.state;
       if (!userState || !userState.presence) continue;
-      if (userState.shouldSyncPresence) {
-        users[connection.id] = userState.presence;
-        this.markSynced(connection);
-        continue;
-      }
-      if (userState.shouldSyncMovement) {
-        // filter unwanted data
-        const { name, ...rest } = userState.presence;
-        users[connection.id] = rest;
-        this.markSynced(connection);
-        continue;
-      }
+      targets.push({ id: connection.id, presence: userState.presence, version: userState.version });
     }
-    return {
-      type: "sync-presence",
-      payload: { users },
+    return targets;
+  }
+
+  /** Sends each connection the presence changes it is interested in, returns true if some are left for later */
+  sendPresenceUpdates(tick: number) {
+    // AI opponents are driven by their host, which already gets the presence on its own connection
+    const connections = [...this.room.getConnections<UserType>()].filter(
+      (connection) => !connection.state?.presence?.bot,
+    );
+    const viewerIds = connections.map((connection) => connection.id);
+    const targets = this.getInterestTargets();
+    const messages = this.interest.getPresenceMessages(viewerIds, targets, Date.now(), tick);
+
+    for (const connection of connections) {
+      const message = messages.get(connection.id);
+      if (message) this.sendPresence(connection, message);
     }
+    return this.interest.hasPendingChanges(viewerIds, targets);
   }
 
   getAllServerPresence(): PullServerPresenceMessageType {
@@ -117,40 +489,177 @@ export default class GameServer implements Party.Server {
       if (!userState || !userState.presence) continue;
       users[connection.id] = userState.presence;
     }
+    // disconnected cars stay until their session expires
+    for (const session of this.sessions.values()) {
+      users[session.playerId] = session.state.presence;
+    }
     return { type: "pull-server-presence", payload: { users } };
   }
 
   public onMessage(message: string | ArrayBufferLike, sender: Party.Connection<UserType>): void | Promise<void> {
-    const messageJson = unpackMessage(message as string);
+    let messageJson: unknown;
+    try {
+      messageJson = unpackMessage(message);
+    } catch {
+      return; // malformed message
+    }
 
     const parsed = objectValidation.safeParse(messageJson);
     if (!parsed.success) return;
 
     switch (parsed.data.type) {
       case "init-user":
-        const initUser = InitUserAction.safeParse(parsed.data);
+        // parse the raw message, objectValidation strips the protocol field
+        const initUser = InitUserAction.safeParse(messageJson);
         if (initUser.success) {
           return this.initPlayerAction(initUser.data, sender);
         }
         break;
       case "update-presence":
-        const updatePresence = UpdatePresenceAction.safeParse(parsed.data);
+        // parse the raw message, objectValidation strips the ack field
+        const updatePresence = UpdatePresenceAction.safeParse(messageJson);
         if (updatePresence.success) {
           return this.updatePresenceAction(updatePresence.data, sender);
         }
         break;
+      case "ping":
+        const ping = PingAction.safeParse(parsed.data);
+        if (ping.success) {
+          const pong = {
+            type: "pong",
+            payload: { clientTime: ping.data.payload.clientTime, serverTime: Date.now() },
+          } satisfies PongMessageType
+          sender.send(packMessage(pong, 'string'));
+        }
+        break;
+      case "collision":
+        const collision = CollisionAction.safeParse(parsed.data);
+        if (collision.success) {
+          return this.collisionAction(collision.data, sender);
+        }
+        break;
+      case "start-race":
+        if (StartRaceAction.safeParse(parsed.data).success) {
+          return this.startRaceAction();
+        }
+        break;
     }
   }
 
   private initPlayerAction(action: InitUserActionType, sender: Party.Connection<UserType>) {
+    // a connection joins once, moves and renames go through update-presence validation
+    const joined = sender.state
+    if (joined) return
+
+    const now = Date.now()
+    const protocol = action.protocol === PRESENCE_PROTOCOL_VERSION ? PRESENCE_PROTOCOL_VERSION : undefined
+    const resumed = action.session && !action.payload.bot ? this.sessions.resume(action.session, now) : null
+
+    if (resumed) {
+      this.resumePlayer(resumed.playerId, resumed.state, protocol, sender)
+      void this.saveSessions()
+    } else {
+      // the turbo is only trusted once the server saw it charging
+      const presence = { ...action.payload, turbo: undefined }
+      if (!isInsideBounds(presence.pos, this.track.bounds)) {
+        presence.pos = { ...this.track.spawns[0].position }
+        this.sendCorrection(sender, { pos: presence.pos }, ["bounds"])
+      }
+      sender.setState({
+        id: sender.id,
+        version: 0,
+        presence,
+        protocol,
+        validation: createPresenceValidation(now),
+        // AI opponents leave with their host, they are never resumed
+        session: presence.bot ? undefined : createSessionToken(),
+      })
+    }
+
+    if (protocol !== undefined) {
+      const message = {
+        type: "protocol",
+        payload: { version: protocol },
+      } satisfies ProtocolMessageType
+      sender.send(packMessage(message, 'string'));
+    }
+
+    const session = sender.state?.session
+    if (session) {
+      const message = {
+        type: "session",
+        payload: { token: session, resumed: resumed !== null, graceMs: this.sessions.graceMs },
+      } satisfies SessionMessageType
+      sender.send(packMessage(message, 'string'));
+    }
+
+    // Update all clients with new player data
+    if (!resumed) this.sendPlayerAdded(sender.id, sender.state!.presence);
+  }
+
+  /** Moves a disconnected player to its new connection, keeping its state and race progress */
+  private resumePlayer(previousId: string, state: UserType, protocol: number | undefined, sender: Party.Connection<UserType>) {
+    const now = Date.now()
+    const presence = state.presence
     sender.setState({
+      ...state,
       id: sender.id,
-      shouldSyncPresence: false,
-      shouldSyncMovement: false,
-      presence: action.payload,
+      version: state.version + 1,
+      protocol,
+      validation: createPresenceValidation(now),
     })
-    // Update all clients with new player data
-    this.sendPlayerAdded(sender.id, action.payload);
+    // the client may have spawned somewhere else, put the car back where it was
+    this.sendCorrection(sender, { pos: presence.pos }, [])
+
+    const message = {
+      type: "player-resumed",
+      payload: { previousId, id: sender.id, presence },
+    } satisfies PlayerResumedMessageType
+    this.sendToAll(packMessage(message, 'string'));
+    this.sendRaceMessages(this.race.renameRacer(previousId, sender.id, now));
+  }
+
+  private startRaceAction() {
+    const players: { id: string; name: string }[] = [];
+    for (const connection of this.room.getConnections<UserType>()) {
+      const userState = connection.state;
+      if (!userState || !userState.presence) continue;
+      players.push({ id: connection.id, name: userState.presence.name });
+    }
+    this.sendRaceMessages(this.race.start(players, Date.now()));
+  }
+
+  /** Both cars of a pair can report the same bump, the first accepted report wins */
+  private collisionAction(action: CollisionActionType, sender: Party.Connection<UserType>) {
+    const otherId = action.payload.id
+    if (otherId === sender.id) return;
+
+    const senderState = sender.state
+    const otherState = this.room.getConnection<UserType>(otherId)?.state
+    if (!senderState?.presence || !otherState?.presence) return;
+
+    const now = Date.now()
+    const key = getCollisionKey(sender.id, otherId)
+    if (now - (this.collisions.get(key) ?? 0) < VEHICLE_COLLISION.cooldownMs) return;
+
+    const impulse = resolveCollision(
+      { presence: senderState.presence, updatedAt: senderState.validation.lastUpdateAt },
+      { presence: otherState.presence, updatedAt: otherState.validation.lastUpdateAt },
+      now,
+    )
+    if (!impulse) {
+      console.warn(`[GameServer] Rejected collision reported by ${sender.id} with ${otherId}`);
+      return;
+    }
+    this.collisions.set(key, now)
+
+    const message = {
+      type: "car-collision",
+      payload: { ids: [sender.id, otherId], impulse },
+    } satisfies CarCollisionMessageType
+    const data = packMessage(message, 'string')
+    sender.send(data);
+    this.room.getConnection(otherId)?.send(data);
   }
 
   sendPlayerAdded(id: string, presence: PresenceType) {
@@ -167,38 +676,110 @@ export default class GameServer implements Party.Server {
   }
 
   private updatePresenceAction(action: UpdatePresenceActionType, sender: Party.Connection<UserType>) {
-    if (!sender.state || !sender.state.presence) return; // no current presence, ignore update
+    if (action.ack !== undefined) {
+      this.interest.ack(sender.id, action.ack)
+    }
 
-    sender.setState((prevState) => {
-      if (!prevState) throw new Error("No previous state");
+    const prevState = sender.state
+    if (!prevState || !prevState.presence) return; // no current presence, ignore update
 
-      const shouldSyncPresence = 'name' in action.payload
+    const result = validatePresenceUpdate(
+      prevState.presence,
+      action.payload,
+      prevState.validation,
+      this.track.bounds,
+      Date.now(),
+    )
 
-      return {
-        ...prevState,
-        shouldSyncPresence,
-        shouldSyncMovement: !shouldSyncPresence,
-        presence: {
-          ...prevState.presence,
-          ...action.payload,
-        },
-      }
+    if (result.violations.length > 0) {
+      console.warn(`[GameServer] Presence violations from ${sender.id}: ${result.violations.join(", ")}`, result.validation.violations);
+    }
+    if (result.correction) {
+      this.sendCorrection(sender, result.correction, result.violations);
+    }
+
+    if (!result.presence) {
+      // dropped, only keep the rate limiter bookkeeping
+      sender.setState({ ...prevState, validation: result.validation })
+      return
+    }
+
+    sender.setState({
+      ...prevState,
+      version: prevState.version + 1,
+      presence: result.presence,
+      validation: result.validation,
     })
     this.updateUsers();
+    this.updateRace(sender);
   }
 
-  onClose(connection: Party.Connection<UserType>) {
+  private sendCorrection(
+    connection: Party.Connection<UserType>,
+    presence: ServerCorrectionMessageType["payload"]["presence"],
+    violations: ServerCorrectionMessageType["payload"]["violations"],
+  ) {
+    const message = {
+      type: "server-correction",
+      payload: { presence, violations },
+    } satisfies ServerCorrectionMessageType
+    connection.send(packMessage(message, 'string'));
+  }
+
+  private updateRace(sender: Party.Connection<UserType>) {
+    const now = Date.now();
+    this.sendRaceMessages(this.race.update(now));
 
+    const presence = sender.state?.presence;
+    if (!presence) return;
+    this.sendRaceMessages(this.race.updatePosition(sender.id, presence.name, presence.pos, now));
+  }
+
+  getPlayerDisconnectedMessage(id: string): PlayerDisconnectedMessageType {
+    return { type: "player-disconnected", payload: { id } }
+  }
+
+  removePlayer(id: string) {
     const totalPlayers = [...this.room.getConnections()].length
 
     const message = {
       type: "player-removed",
       payload: {
-        id: connection.id,
+        id,
         totalPlayers,
       },
     } satisfies PlayerRemovedMessageType
     this.sendToAll(packMessage(message, 'string'));
+    this.sendRaceMessages(this.race.removeRacer(id, Date.now()));
+  }
+
+  /** Removes the players that didn't come back in time */
+  expireSessions() {
+    const expired = this.sessions.expire(Date.now())
+    if (expired.length === 0) return;
+    for (const session of expired) {
+      this.removePlayer(session.playerId);
+    }
+    void this.saveSessions();
+  }
+
+  async onClose(connection: Party.Connection<UserType>) {
+    this.interest.removeConnection(connection.id);
+    for (const key of this.collisions.keys()) {
+      if (key.split(":").includes(connection.id)) this.collisions.delete(key);
+    }
+
+    const state = connection.state
+    if (state?.session) {
+      // keep the car and its race progress, the player can resume with the token
+      this.sessions.suspend(state.session, connection.id, state, Date.now())
+      this.sendToAll(packMessage(this.getPlayerDisconnectedMessage(connection.id), 'string'));
+      await this.saveSessions();
+      await this.scheduleAlarm();
+    } else {
+      this.removePlayer(connection.id);
+    }
+    await this.updateLobby(connection.id);
   }
 
   onError() {
@@ -0,0 +1,183 @@
+/**
+ * Area of interest filtering for presence updates
+ * Each viewer gets every change of the cars close to it, and
+ * changes of distant cars at a reduced rate. The changes are
+ * delta compressed against the last tick the viewer acknowledged.
+ */
+
+import { PresenceDeltaEncoder, type PresenceType, type SyncPresenceType } from "game-schemas";
+
+/** Cars closer than this are synced on every tick */
+export const NEAR_RADIUS = 5;
+/** Minimum time between updates of distant cars */
+export const FAR_UPDATE_INTERVAL_MS = 250;
+
+const CELL_SIZE = NEAR_RADIUS;
+
+export interface InterestTarget {
+  id: string;
+  presence: PresenceType;
+  /** Incremented on every presence change */
+  version: number;
+}
+
+interface ViewerState {
+  lastFarSyncAt: number;
+  /** Version of each target when it was last sent */
+  sent: Map<string, number>;
+  deltas: PresenceDeltaEncoder;
+  /** Tick of the last sync-presence sent to the viewer */
+  lastTick?: number;
+}
+
+/** Uniform grid over the XZ plane, rebuilt on every tick */
+export class SpatialGrid<T extends { presence: PresenceType }> {
+  private cells = new Map<string, T[]>();
+
+  constructor(readonly cellSize = CELL_SIZE) {}
+
+  private key(cx: number, cz: number) {
+    return `${cx}:${cz}`;
+  }
+
+  insert(item: T) {
+    const cx = Math.floor(item.presence.pos.x / this.cellSize);
+    const cz = Math.floor(item.presence.pos.z / this.cellSize);
+    const key = this.key(cx, cz);
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(item);
+    } else {
+      this.cells.set(key, [item]);
+    }
+  }
+
+  /** Items within radius of x, z */
+  query(x: number, z: number, radius: number, out: T[] = []) {
+    const minX = Math.floor((x - radius) / this.cellSize);
+    const maxX = Math.floor((x + radius) / this.cellSize);
+    const minZ = Math.floor((z - radius) / this.cellSize);
+    const maxZ = Math.floor((z + radius) / this.cellSize);
+    const radiusSq = radius * radius;
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        const cell = this.cells.get(this.key(cx, cz));
+        if (!cell) continue;
+        for (const item of cell) {
+          const dx = item.presence.pos.x - x;
+          const dz = item.presence.pos.z - z;
+          if (dx * dx + dz * dz <= radiusSq) out.push(item);
+        }
+      }
+    }
+    return out;
+  }
+}
+
+export class InterestManager {
+  private viewers = new Map<string, ViewerState>();
+
+  private getViewer(id: string, now: number) {
+    let viewer = this.viewers.get(id);
+    if (!viewer) {
+      // a new viewer already got the full state in pull-server-presence
+      viewer = { lastFarSyncAt: now, sent: new Map(), deltas: new PresenceDeltaEncoder() };
+      this.viewers.set(id, viewer);
+    }
+    return viewer;
+  }
+
+  /** Marks the current state of the targets as known by a new viewer */
+  addViewer(viewerId: string, targets: InterestTarget[], now: number) {
+    const viewer = this.getViewer(viewerId, now);
+    for (const target of targets) {
+      viewer.sent.set(target.id, target.version);
+    }
+  }
+
+  /** The viewer rebuilt the sync-presence of that tick, later ones are deltas against it */
+  ack(viewerId: string, tick: number) {
+    this.viewers.get(viewerId)?.deltas.ack(tick);
+  }
+
+  removeConnection(id: string) {
+    this.viewers.delete(id);
+    for (const viewer of this.viewers.values()) {
+      viewer.sent.delete(id);
+      viewer.deltas.remove(id);
+    }
+  }
+
+  /** True when a viewer has changes left for a later tick, like distant cars waiting for their interval */
+  hasPendingChanges(viewerIds: string[], targets: InterestTarget[]) {
+    for (const viewerId of viewerIds) {
+      const viewer = this.viewers.get(viewerId);
+      for (const target of targets) {
+        if (target.id === viewerId) continue;
+        const sent = viewer?.sent.get(target.id);
+        if (sent === undefined || sent < target.version) return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Builds the sync-presence payload of every viewer for this tick
+   * Viewers without changes to receive are left out
+   */
+  getPresenceMessages(
+    viewerIds: string[],
+    targets: InterestTarget[],
+    now: number,
+    tick: number
+  ): Map<string, SyncPresenceType> {
+    const grid = new SpatialGrid<InterestTarget>();
+    const targetsById = new Map<string, InterestTarget>();
+    for (const target of targets) {
+      grid.insert(target);
+      targetsById.set(target.id, target);
+    }
+
+    const messages = new Map<string, SyncPresenceType>();
+    const near: InterestTarget[] = [];
+
+    for (const viewerId of viewerIds) {
+      const viewer = this.getViewer(viewerId, now);
+      const users = new Map<string, PresenceType>();
+
+      const include = (target: InterestTarget) => {
+        if (target.id === viewerId) return;
+        const sent = viewer.sent.get(target.id);
+        if (sent !== undefined && sent >= target.version) return;
+
+        users.set(target.id, target.presence);
+        viewer.sent.set(target.id, target.version);
+      };
+
+      const self = targetsById.get(viewerId);
+      if (self) {
+        near.length = 0;
+        grid.query(self.presence.pos.x, self.presence.pos.z, NEAR_RADIUS, near);
+        near.forEach(include);
+      }
+
+      if (now - viewer.lastFarSyncAt >= FAR_UPDATE_INTERVAL_MS) {
+        viewer.lastFarSyncAt = now;
+        targets.forEach(include);
+      }
+
+      // unchanged fields are left out, the profile is only sent when it changes
+      const delta = users.size > 0 ? viewer.deltas.encode(tick, users) : null;
+      if (delta) {
+        messages.set(viewerId, {
+          type: "sync-presence",
+          payload: { tick, previousTick: viewer.lastTick, ...delta },
+        });
+        viewer.lastTick = tick;
+      }
+    }
+
+    return messages;
+  }
+}
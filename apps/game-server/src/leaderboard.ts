@@ -0,0 +1,114 @@
+/**
+ * Leaderboard of a track, fed by the lap times and results of server races
+ * Only times computed by the server are recorded, clients can't submit them.
+ */
+
+import {
+  getLeaderboardKey,
+  MAX_LEADERBOARD_ENTRIES,
+  type LeaderboardEntryType,
+  type LeaderboardType,
+  type RaceResultType,
+} from "game-schemas";
+
+export function getLeaderboardStorageKey(trackId: string) {
+  return `leaderboard:${trackId}`;
+}
+
+function compareTimes(a: number | null, b: number | null) {
+  if (a !== null && b !== null) return a - b;
+  if (a !== null) return -1;
+  if (b !== null) return 1;
+  return 0;
+}
+
+function compareEntries(a: LeaderboardEntryType, b: LeaderboardEntryType) {
+  return (
+    compareTimes(a.bestLap, b.bestLap) ||
+    compareTimes(a.bestRace, b.bestRace) ||
+    b.wins - a.wins ||
+    a.updatedAt - b.updatedAt
+  );
+}
+
+export class Leaderboard {
+  private entries = new Map<string, LeaderboardEntryType>();
+
+  constructor(readonly trackId: string, entries: LeaderboardEntryType[] = []) {
+    for (const entry of entries) {
+      this.entries.set(getLeaderboardKey(entry.name), entry);
+    }
+  }
+
+  /** Returns true if the lap improved the leaderboard */
+  recordLap(name: string, lapTime: number, now: number): boolean {
+    const entry = this.getEntry(name, now);
+    if (entry.bestLap !== null && entry.bestLap <= lapTime) return false;
+
+    entry.name = name;
+    entry.bestLap = lapTime;
+    entry.updatedAt = now;
+    this.trim();
+    return true;
+  }
+
+  /** Counts the finished races and wins, returns true if anything changed */
+  recordRace(results: RaceResultType[], now: number): boolean {
+    let changed = false;
+    // racers with the same name share an entry, count their race once
+    const counted = new Set<string>();
+
+    for (const result of results) {
+      if (result.totalTime === null) continue;
+      const key = getLeaderboardKey(result.name);
+      const entry = this.getEntry(result.name, now);
+
+      if (!counted.has(key)) {
+        counted.add(key);
+        entry.races += 1;
+      }
+      if (result.position === 1) entry.wins += 1;
+      if (entry.bestRace === null || result.totalTime < entry.bestRace) {
+        entry.name = result.name;
+        entry.bestRace = result.totalTime;
+      }
+      entry.updatedAt = now;
+      changed = true;
+    }
+
+    if (changed) this.trim();
+    return changed;
+  }
+
+  reset() {
+    this.entries.clear();
+  }
+
+  getEntries(limit = MAX_LEADERBOARD_ENTRIES): LeaderboardEntryType[] {
+    return [...this.entries.values()].sort(compareEntries).slice(0, limit);
+  }
+
+  toJSON(limit?: number): LeaderboardType {
+    return { trackId: this.trackId, entries: this.getEntries(limit) };
+  }
+
+  private getEntry(name: string, now: number) {
+    const key = getLeaderboardKey(name);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { name, bestLap: null, bestRace: null, races: 0, wins: 0, updatedAt: now };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  /** Keeps storage values small, the slowest entries are dropped */
+  private trim() {
+    if (this.entries.size <= MAX_LEADERBOARD_ENTRIES) return;
+    const kept = this.getEntries();
+    this.entries.clear();
+    for (const entry of kept) {
+      this.entries.set(getLeaderboardKey(entry.name), entry);
+    }
+  }
+}
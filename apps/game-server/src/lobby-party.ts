@@ -0,0 +1,87 @@
+/**
+ * Lobby Party
+ *
+ * Keeps the list of active game rooms. Game rooms report their player count
+ * over http from onConnect/onClose, lobby pages connect over websocket and
+ * get the updated list every time a room changes. Room updates are signed
+ * with the LOBBY_SECRET both parties share in the deployment env.
+ */
+
+import type * as Party from "partykit/server";
+import { RoomUpdateRequest, type LobbyRoomsMessageType, type RoomInfoType } from "game-schemas";
+import { CORS_HEADERS, jsonResponse } from "./utils";
+
+/** Empty rooms stay listed for a while, so their creator has time to join */
+const EMPTY_ROOM_TTL_MS = 5 * 60 * 1000;
+const ROOMS_STORAGE_KEY = "rooms";
+
+export default class LobbyParty implements Party.Server {
+  private rooms: Map<string, RoomInfoType> = new Map();
+
+  constructor(readonly room: Party.Room) {}
+
+  static options = {
+    hibernate: true
+  }
+
+  async onStart() {
+    const stored = await this.room.storage.get<RoomInfoType[]>(ROOMS_STORAGE_KEY);
+    for (const info of stored ?? []) {
+      this.rooms.set(info.id, info);
+    }
+  }
+
+  onConnect(connection: Party.Connection): void {
+    connection.send(JSON.stringify(this.getRoomsMessage()));
+  }
+
+  async onRequest(request: Party.Request): Promise<Response> {
+    switch (request.method) {
+      case "OPTIONS":
+        return new Response(null, { headers: CORS_HEADERS });
+      case "GET":
+        return jsonResponse(this.getRoomsMessage());
+      case "POST": {
+        // rooms can't be listed unless the deployment sets a secret
+        const secret = this.room.env.LOBBY_SECRET;
+        if (typeof secret !== "string" || secret.length === 0) {
+          return jsonResponse({ error: "Room updates are disabled" }, 403);
+        }
+        if (request.headers.get("Authorization") !== `Bearer ${secret}`) {
+          return jsonResponse({ error: "Unauthorized" }, 401);
+        }
+
+        const update = RoomUpdateRequest.safeParse(await request.json().catch(() => null));
+        if (!update.success) return jsonResponse({ error: "Invalid room update" }, 400);
+        await this.updateRoom(update.data.payload);
+        return jsonResponse({ ok: true });
+      }
+      default:
+        return jsonResponse({ error: "Method not allowed" }, 405);
+    }
+  }
+
+  private async updateRoom(info: RoomInfoType) {
+    const now = Date.now();
+    this.rooms.set(info.id, { ...info, updatedAt: now });
+    this.pruneRooms(now);
+    await this.room.storage.put(ROOMS_STORAGE_KEY, [...this.rooms.values()]);
+
+    this.room.broadcast(JSON.stringify(this.getRoomsMessage()));
+  }
+
+  private pruneRooms(now: number) {
+    for (const [id, info] of this.rooms) {
+      if (info.players === 0 && now - info.updatedAt > EMPTY_ROOM_TTL_MS) {
+        console.log(`[Lobby] Room removed: ${id}`);
+        this.rooms.delete(id);
+      }
+    }
+  }
+
+  private getRoomsMessage(): LobbyRoomsMessageType {
+    this.pruneRooms(Date.now());
+    const rooms = [...this.rooms.values()].sort((a, b) => b.players - a.players);
+    return { type: "lobby-rooms", payload: { rooms } };
+  }
+}
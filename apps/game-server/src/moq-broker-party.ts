@@ -10,12 +10,14 @@
  */
 
 import type * as Party from "partykit/server";
+import { ProfileSchema, type ProfileType } from "game-schemas";
 
 // Type for each participant in the room
 interface MoQParticipant {
   id: string;
   playerName: string;
   moqPath: string; // The MoQ broadcast path for this player (e.g., "game/room-123/player-abc")
+  profile?: ProfileType; // Name, color and emoji, MoQ game state only carries movement
   joinedAt: number;
   lastSeen: number;
 }
@@ -27,7 +29,7 @@ interface ConnectionState {
 
 // Messages the broker handles
 type BrokerMessage = 
-  | { type: "join"; id: string; playerName: string; moqPath: string }
+  | { type: "join"; id: string; playerName: string; moqPath: string; profile?: unknown }
   | { type: "leave"; id: string }
   | { type: "heartbeat"; id: string }
   | { type: "request_peers"; id: string };
@@ -91,11 +93,13 @@ export default class MoQBrokerParty implements Party.Server {
     }
   }
 
-  private handleJoin(msg: { id: string; playerName: string; moqPath: string }, connection: Party.Connection<ConnectionState>) {
+  private handleJoin(msg: { id: string; playerName: string; moqPath: string; profile?: unknown }, connection: Party.Connection<ConnectionState>) {
+    const profile = ProfileSchema.safeParse(msg.profile);
     const participant: MoQParticipant = {
       id: msg.id,
-      playerName: msg.playerName,
+      playerName: profile.success ? profile.data.name : msg.playerName,
       moqPath: msg.moqPath,
+      profile: profile.success ? profile.data : undefined,
       joinedAt: Date.now(),
       lastSeen: Date.now(),
     };
@@ -0,0 +1,321 @@
+/**
+ * Server authoritative race state machine
+ * lobby -> countdown -> racing -> finished -> lobby
+ *
+ * Lap times are computed from the positions the server receives,
+ * using the server clock, so clients can't report their own times.
+ */
+
+import {
+  crossGate,
+  getTrackGates,
+  type LapCompletedMessageType,
+  type RacePhase,
+  type RaceResultsMessageType,
+  type RaceResultType,
+  type RaceStateMessageType,
+  type RacerProgressType,
+  type TrackDefinitionType,
+  type TrackGateType,
+  type Vector2D,
+} from "game-schemas";
+
+export const RACE_LAPS = 3;
+export const RACE_COUNTDOWN_MS = 3000;
+/** Time the other racers have to finish once the winner crossed the line */
+export const RACE_FINISH_GRACE_MS = 30_000;
+/** Time results stay visible before going back to the lobby */
+export const RACE_RESULTS_MS = 10_000;
+
+export type RaceMessage =
+  | RaceStateMessageType
+  | LapCompletedMessageType
+  | RaceResultsMessageType;
+
+export interface Racer {
+  id: string;
+  name: string;
+  lap: number;
+  nextCheckpoint: number;
+  /** Checkpoints crossed since the start, used to rank unfinished racers */
+  checkpointsPassed: number;
+  lapStartedAt: number;
+  lapTimes: number[];
+  bestLap: number | null;
+  finishTime: number | null;
+  lastPos: Vector2D | null;
+  lastTime: number;
+}
+
+/** Race state as stored, restored when the room wakes up from hibernation */
+export interface RaceSnapshot {
+  phase: RacePhase;
+  startsAt: number | null;
+  endsAt: number | null;
+  resultsUntil: number | null;
+  racers: Racer[];
+}
+
+export class Race {
+  phase: RacePhase = "lobby";
+  startsAt: number | null = null;
+  endsAt: number | null = null;
+  /** Set when a checkpoint crossing changed a racer without any message, cleared once stored */
+  unsavedProgress = false;
+
+  private resultsUntil: number | null = null;
+  private racers = new Map<string, Racer>();
+  private gates: TrackGateType[];
+
+  constructor(readonly track: TrackDefinitionType, readonly totalLaps = RACE_LAPS) {
+    this.gates = getTrackGates(track);
+  }
+
+  getSnapshot(): RaceSnapshot {
+    return {
+      phase: this.phase,
+      startsAt: this.startsAt,
+      endsAt: this.endsAt,
+      resultsUntil: this.resultsUntil,
+      racers: [...this.racers.values()],
+    };
+  }
+
+  restore(snapshot: RaceSnapshot) {
+    this.phase = snapshot.phase;
+    this.startsAt = snapshot.startsAt;
+    this.endsAt = snapshot.endsAt;
+    this.resultsUntil = snapshot.resultsUntil;
+    this.racers = new Map(snapshot.racers.map((racer) => [racer.id, racer]));
+  }
+
+  /** Time of the next timed phase transition, null if the phase only changes on positions */
+  getNextTimerAt(): number | null {
+    switch (this.phase) {
+      case "countdown":
+        return this.startsAt;
+      case "racing":
+        return this.endsAt;
+      case "finished":
+        return this.resultsUntil;
+      default:
+        return null;
+    }
+  }
+
+  start(players: { id: string; name: string }[], now: number): RaceMessage[] {
+    if (this.phase !== "lobby" || players.length === 0) return [];
+
+    this.racers.clear();
+    for (const player of players) {
+      this.racers.set(player.id, {
+        id: player.id,
+        name: player.name,
+        lap: 0,
+        nextCheckpoint: 0,
+        checkpointsPassed: 0,
+        lapStartedAt: 0,
+        lapTimes: [],
+        bestLap: null,
+        finishTime: null,
+        lastPos: null,
+        lastTime: now,
+      });
+    }
+
+    this.phase = "countdown";
+    this.startsAt = now + RACE_COUNTDOWN_MS;
+    this.endsAt = null;
+    this.resultsUntil = null;
+
+    return [this.getStateMessage(now)];
+  }
+
+  /** Advance timed phase transitions */
+  update(now: number): RaceMessage[] {
+    switch (this.phase) {
+      case "countdown":
+        if (this.startsAt !== null && now >= this.startsAt) {
+          this.phase = "racing";
+          for (const racer of this.racers.values()) {
+            racer.lapStartedAt = this.startsAt;
+          }
+          return [this.getStateMessage(now)];
+        }
+        break;
+      case "racing":
+        if (this.endsAt !== null && now >= this.endsAt) {
+          return this.finish(now);
+        }
+        break;
+      case "finished":
+        if (this.resultsUntil !== null && now >= this.resultsUntil) {
+          this.reset();
+          return [this.getStateMessage(now)];
+        }
+        break;
+    }
+    return [];
+  }
+
+  updatePosition(id: string, name: string, pos: Vector2D, now: number): RaceMessage[] {
+    const racer = this.racers.get(id);
+    if (!racer) return [];
+
+    racer.name = name;
+    const prevPos = racer.lastPos;
+    const prevTime = racer.lastTime;
+    racer.lastPos = { x: pos.x, z: pos.z };
+    racer.lastTime = now;
+
+    if (this.phase !== "racing" || racer.finishTime !== null || !prevPos) return [];
+
+    const gateIndex = racer.nextCheckpoint;
+    const t = crossGate(this.gates[gateIndex], prevPos, pos);
+    if (t === null) return [];
+
+    const crossedAt = Math.max(prevTime + (now - prevTime) * t, racer.lapStartedAt);
+    racer.nextCheckpoint = (gateIndex + 1) % this.gates.length;
+    racer.checkpointsPassed += 1;
+    this.unsavedProgress = true;
+
+    if (gateIndex !== 0) return [];
+
+    // first crossing of the start line, lap 1 is timed from the race start
+    if (racer.lap === 0) {
+      racer.lap = 1;
+      return [this.getStateMessage(now)];
+    }
+
+    const lapTime = crossedAt - racer.lapStartedAt;
+    racer.lapTimes.push(lapTime);
+    racer.lapStartedAt = crossedAt;
+    racer.bestLap = racer.bestLap === null ? lapTime : Math.min(racer.bestLap, lapTime);
+
+    const messages: RaceMessage[] = [
+      {
+        type: "lap-completed",
+        payload: {
+          id,
+          lap: racer.lap,
+          lapTime,
+          totalTime: crossedAt - this.startsAt!,
+          bestLap: racer.bestLap,
+        },
+      },
+    ];
+
+    if (racer.lapTimes.length < this.totalLaps) {
+      racer.lap += 1;
+      messages.push(this.getStateMessage(now));
+      return messages;
+    }
+
+    racer.finishTime = crossedAt - this.startsAt!;
+    if (this.endsAt === null) {
+      this.endsAt = now + RACE_FINISH_GRACE_MS;
+    }
+
+    if (this.allFinished()) {
+      return [...messages, ...this.finish(now)];
+    }
+
+    messages.push(this.getStateMessage(now));
+    return messages;
+  }
+
+  removeRacer(id: string, now: number): RaceMessage[] {
+    if (!this.racers.delete(id)) return [];
+
+    if (this.phase === "countdown" || this.phase === "racing") {
+      if (this.racers.size === 0) {
+        this.reset();
+        return [this.getStateMessage(now)];
+      }
+      if (this.phase === "racing" && this.allFinished()) {
+        return this.finish(now);
+      }
+    }
+
+    return [this.getStateMessage(now)];
+  }
+
+  /** Moves the progress of a player that came back with a new connection id */
+  renameRacer(previousId: string, id: string, now: number): RaceMessage[] {
+    const racer = this.racers.get(previousId);
+    if (!racer || previousId === id) return [];
+
+    this.racers.delete(previousId);
+    racer.id = id;
+    this.racers.set(id, racer);
+    return [this.getStateMessage(now)];
+  }
+
+  getStateMessage(now: number): RaceStateMessageType {
+    const racers: Record<string, RacerProgressType> = {};
+    for (const racer of this.racers.values()) {
+      racers[racer.id] = {
+        lap: racer.lap,
+        nextCheckpoint: racer.nextCheckpoint,
+        bestLap: racer.bestLap,
+        finishTime: racer.finishTime,
+      };
+    }
+
+    return {
+      type: "race-state",
+      payload: {
+        phase: this.phase,
+        totalLaps: this.totalLaps,
+        startsAt: this.startsAt,
+        endsAt: this.endsAt,
+        serverTime: now,
+        racers,
+      },
+    };
+  }
+
+  getResults(): RaceResultType[] {
+    // finished racers by time, then by distance covered
+    const sorted = [...this.racers.values()].sort((a, b) => {
+      if (a.finishTime !== null && b.finishTime !== null) return a.finishTime - b.finishTime;
+      if (a.finishTime !== null) return -1;
+      if (b.finishTime !== null) return 1;
+      return b.checkpointsPassed - a.checkpointsPassed;
+    });
+
+    return sorted.map((racer, index) => ({
+      id: racer.id,
+      name: racer.name,
+      position: index + 1,
+      laps: racer.lapTimes.length,
+      totalTime: racer.finishTime,
+      bestLap: racer.bestLap,
+    }));
+  }
+
+  private finish(now: number): RaceMessage[] {
+    this.phase = "finished";
+    this.resultsUntil = now + RACE_RESULTS_MS;
+
+    return [
+      this.getStateMessage(now),
+      { type: "race-results", payload: { results: this.getResults() } },
+    ];
+  }
+
+  private allFinished() {
+    for (const racer of this.racers.values()) {
+      if (racer.finishTime === null) return false;
+    }
+    return true;
+  }
+
+  private reset() {
+    this.phase = "lobby";
+    this.startsAt = null;
+    this.endsAt = null;
+    this.resultsUntil = null;
+    this.racers.clear();
+  }
+}
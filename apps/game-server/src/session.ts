@@ -0,0 +1,77 @@
+/**
+ * Session resumption
+ * Players get a token on init-user. When their connection drops the player
+ * is kept for a grace window, a new connection sending the token takes over
+ * its state, race progress and identity instead of joining as a new car.
+ */
+
+import type { UserType } from "game-schemas";
+
+/** Time a dropped player waits for its reconnection */
+export const SESSION_GRACE_MS = 30_000;
+
+/** Player of a dropped connection, waiting for a reconnection */
+export interface SuspendedSession {
+  /** Id of the dropped connection, other clients know the car by it */
+  playerId: string;
+  state: UserType;
+  expiresAt: number;
+}
+
+export function createSessionToken() {
+  return crypto.randomUUID();
+}
+
+/** Suspended sessions by token, as stored so they survive hibernation */
+export type StoredSessions = [token: string, session: SuspendedSession][];
+
+export class SessionStore {
+  private suspended: Map<string, SuspendedSession>;
+
+  constructor(entries: StoredSessions = [], readonly graceMs = SESSION_GRACE_MS) {
+    this.suspended = new Map(entries);
+  }
+
+  /** Keeps the player of a dropped connection until the grace window ends */
+  suspend(token: string, playerId: string, state: UserType, now: number) {
+    this.suspended.set(token, { playerId, state, expiresAt: now + this.graceMs });
+  }
+
+  /** Takes the suspended player of a token, null if unknown or expired */
+  resume(token: string, now: number): SuspendedSession | null {
+    const session = this.suspended.get(token);
+    // expired sessions are left for expire(), which removes their car
+    if (!session || session.expiresAt <= now) return null;
+    this.suspended.delete(token);
+    return session;
+  }
+
+  /** Removes and returns the sessions whose grace window ended */
+  expire(now: number): SuspendedSession[] {
+    const expired: SuspendedSession[] = [];
+    for (const [token, session] of this.suspended) {
+      if (session.expiresAt <= now) {
+        this.suspended.delete(token);
+        expired.push(session);
+      }
+    }
+    return expired;
+  }
+
+  /** Time the next session expires, null if none is waiting */
+  getNextExpiry(): number | null {
+    let next: number | null = null;
+    for (const session of this.suspended.values()) {
+      if (next === null || session.expiresAt < next) next = session.expiresAt;
+    }
+    return next;
+  }
+
+  values() {
+    return this.suspended.values();
+  }
+
+  toJSON(): StoredSessions {
+    return [...this.suspended];
+  }
+}
@@ -1,13 +1,10 @@
-export function createThrottle(fn: (...args: any[]) => void, wait: number) {
+/** The game front is served from another origin */
+export const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+}
 
-  const lastUsed = { current: 0 }
-
-  return (...args: any[]) => {
-    const now = Date.now()
-    if (now - lastUsed.current > wait) {
-      lastUsed.current = now
-      fn(...args)
-    }
-  }
-
-}
\ No newline at end of file
+export function jsonResponse(data: unknown, status = 200) {
+  return Response.json(data, { status, headers: CORS_HEADERS })
+}
@@ -0,0 +1,226 @@
+/**
+ * Plausibility checks for presence updates
+ * Clients simulate their own car, the server only makes sure the reported
+ * movement could have been driven and corrects the client when it couldn't.
+ */
+
+import {
+  DRIFT_BOOST_TIERS,
+  getDriftTier,
+  VEHICLE_MAX_VELOCITY,
+  type PresenceType,
+  type PresenceValidationType,
+  type PresenceViolationType,
+  type ServerCorrectionMessageType,
+  type TrackBoundsType,
+  type TurboType,
+} from "game-schemas";
+
+/** Sustained update-presence rate, clients send at 15hz */
+export const MAX_UPDATES_PER_SECOND = 30;
+/** Updates allowed in a burst, e.g. after a network hiccup */
+export const UPDATE_BURST = 10;
+/** Speed allowed over the vehicle terminal velocity, covers bumps and physics jitter */
+export const SPEED_TOLERANCE = 1.25;
+/** Extra travel time allowed between updates, covers packets arriving bunched up */
+export const LATENCY_SLACK_MS = 150;
+/** Minimum time between name, color or emoji changes */
+export const PROFILE_CHANGE_INTERVAL_MS = 5000;
+/** Minimum time between corrections, the client needs a round trip to apply one */
+export const CORRECTION_INTERVAL_MS = 250;
+
+export const MAX_SPEED = VEHICLE_MAX_VELOCITY * SPEED_TOLERANCE;
+
+/** Speed cap of a car, drift boosts go over the vehicle max speed */
+export function getMaxSpeed(presence: Partial<PresenceType>) {
+  const boost = presence.turbo?.boost ?? 0;
+  return boost > 0 ? MAX_SPEED * DRIFT_BOOST_TIERS[boost - 1].speed : MAX_SPEED;
+}
+
+const PROFILE_FIELDS = ["name", "color", "emoji"] as const;
+
+type Vector3 = PresenceType["pos"];
+type TurboValidation = PresenceValidationType["turbo"];
+type PresenceCorrection = ServerCorrectionMessageType["payload"]["presence"];
+
+export interface PresenceValidationResult {
+  /** Presence to store, null when the update was dropped */
+  presence: PresenceType | null;
+  validation: PresenceValidationType;
+  violations: PresenceViolationType[];
+  /** Values to send back to the client, null when nothing needs correcting */
+  correction: PresenceCorrection | null;
+}
+
+export function createPresenceValidation(now: number): PresenceValidationType {
+  return {
+    lastUpdateAt: now,
+    lastMessageAt: now,
+    tokens: UPDATE_BURST,
+    lastProfileChangeAt: 0,
+    lastCorrectionAt: 0,
+    turbo: { chargeStartedAt: null, charged: 0, boost: 0, boostEndsAt: 0 },
+    violations: {},
+  };
+}
+
+export function isInsideBounds(pos: Vector3, bounds: TrackBoundsType | undefined) {
+  if (!bounds) return true;
+  return (
+    pos.x >= bounds.min.x && pos.x <= bounds.max.x &&
+    pos.y >= bounds.min.y && pos.y <= bounds.max.y &&
+    pos.z >= bounds.min.z && pos.z <= bounds.max.z
+  );
+}
+
+function distance(a: Vector3, b: Vector3) {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+/** Scales a velocity down to the speed cap, keeping its direction */
+function clampVelocity(vel: Vector3, maxSpeed: number) {
+  const speed = Math.hypot(vel.x, vel.y, vel.z);
+  if (speed <= maxSpeed) return vel;
+  const scale = maxSpeed / speed;
+  return { x: vel.x * scale, y: vel.y * scale, z: vel.z * scale };
+}
+
+/**
+ * Caps the reported turbo to the drift boost the server saw being charged
+ * A boost needs a drift that charged its tier, and lasts its tier duration
+ */
+function validateTurbo(reported: TurboType, prev: TurboValidation, now: number) {
+  const validation = { ...prev };
+  let rejected = false;
+
+  if (validation.boost > 0 && now > validation.boostEndsAt) validation.boost = 0;
+
+  if (reported.charge > 0) {
+    validation.chargeStartedAt ??= now;
+    // the first tier is charged before the server hears about the drift
+    const chargeMs = now - validation.chargeStartedAt + DRIFT_BOOST_TIERS[0].chargeMs + LATENCY_SLACK_MS;
+    const maxCharge = getDriftTier(chargeMs);
+    if (reported.charge > maxCharge) rejected = true;
+    validation.charged = Math.max(validation.charged, Math.min(reported.charge, maxCharge));
+  } else if (validation.charged > 0) {
+    // the drift was released, the boost it starts can't go over the tier it charged
+    if (reported.boost > 0) {
+      validation.boost = Math.min(reported.boost, validation.charged);
+      validation.boostEndsAt = now + DRIFT_BOOST_TIERS[validation.boost - 1].durationMs + LATENCY_SLACK_MS;
+    }
+    validation.chargeStartedAt = null;
+    validation.charged = 0;
+  }
+
+  const turbo: TurboType = {
+    charge: Math.min(reported.charge, validation.charged),
+    boost: Math.min(reported.boost, validation.boost),
+  };
+  if (turbo.boost < reported.boost) rejected = true;
+
+  return { turbo, validation, rejected };
+}
+
+/**
+ * Validates an update against the last accepted presence
+ * Elapsed time is measured with the server clock, client timestamps can't be trusted
+ */
+export function validatePresenceUpdate(
+  prev: PresenceType,
+  update: Partial<PresenceType>,
+  prevValidation: PresenceValidationType,
+  bounds: TrackBoundsType | undefined,
+  now: number
+): PresenceValidationResult {
+  const validation: PresenceValidationType = {
+    ...prevValidation,
+    violations: { ...prevValidation.violations },
+  };
+  const violations: PresenceViolationType[] = [];
+  const flag = (violation: PresenceViolationType) => {
+    violations.push(violation);
+    validation.violations[violation] = (validation.violations[violation] ?? 0) + 1;
+  };
+
+  // token bucket rate limit
+  const refill = ((now - validation.lastMessageAt) / 1000) * MAX_UPDATES_PER_SECOND;
+  validation.tokens = Math.min(UPDATE_BURST, validation.tokens + refill);
+  validation.lastMessageAt = now;
+  if (validation.tokens < 1) {
+    flag("rate-limit");
+    return { presence: null, validation, violations, correction: null };
+  }
+  validation.tokens -= 1;
+
+  // the bot flag is set when joining, it can't be changed later
+  const presence: PresenceType = { ...prev, ...update, bot: prev.bot };
+  const correction: PresenceCorrection = {};
+
+  if (presence.turbo) {
+    const result = validateTurbo(presence.turbo, validation.turbo, now);
+    presence.turbo = result.turbo;
+    validation.turbo = result.validation;
+    if (result.rejected && update.turbo) flag("turbo");
+  }
+
+  // a boost that ended since the last update still covered part of the distance
+  const maxSpeed = Math.max(getMaxSpeed(prev), getMaxSpeed(presence));
+
+  if (update.pos) {
+    const elapsed = now - validation.lastUpdateAt;
+    const maxDistance = (maxSpeed * (elapsed + LATENCY_SLACK_MS)) / 1000;
+
+    let rejected = false;
+    if (distance(prev.pos, update.pos) > maxDistance) {
+      flag("displacement");
+      rejected = true;
+    }
+    if (!isInsideBounds(update.pos, bounds)) {
+      flag("bounds");
+      rejected = true;
+    }
+    if (rejected) {
+      // keep the car where it was last seen
+      presence.pos = prev.pos;
+      presence.vel = prev.vel;
+      correction.pos = prev.pos;
+    }
+  }
+
+  if (update.vel) {
+    const vel = clampVelocity(presence.vel, getMaxSpeed(presence));
+    if (vel !== presence.vel) {
+      flag("speed");
+      presence.vel = vel;
+    }
+  }
+
+  const profileChanged = PROFILE_FIELDS.some(
+    (field) => update[field] !== undefined && update[field] !== prev[field]
+  );
+  if (profileChanged) {
+    if (now - validation.lastProfileChangeAt < PROFILE_CHANGE_INTERVAL_MS) {
+      flag("profile-change");
+      for (const field of PROFILE_FIELDS) {
+        presence[field] = prev[field];
+        correction[field] = prev[field];
+      }
+    } else {
+      validation.lastProfileChangeAt = now;
+    }
+  }
+
+  validation.lastUpdateAt = now;
+
+  const needsCorrection =
+    Object.keys(correction).length > 0 &&
+    now - validation.lastCorrectionAt >= CORRECTION_INTERVAL_MS;
+  if (needsCorrection) validation.lastCorrectionAt = now;
+
+  return {
+    presence,
+    validation,
+    violations,
+    correction: needsCorrection ? correction : null,
+  };
+}
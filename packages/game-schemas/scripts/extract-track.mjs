@@ -0,0 +1,46 @@
+/**
+ * Extracts a track definition from the gameplay nodes of a track GLB
+ *   pnpm run extract-track [track.glb] [track-id]
+ *
+ * Writes src/tracks/<track-id>.json, validated by TrackDefinitionSchema. The
+ * client and the server both race on that file, so run it every time the
+ * markers of the GLB move, see src/track.ts for the marker names.
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { getGltfTrackNodes, parseTrackDefinition } from "../dist/index.mjs";
+
+const packageDir = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const glbPath = resolve(process.argv[2] ?? resolve(packageDir, "../../apps/game-front/public/game-track.glb"));
+const trackId = process.argv[3] ?? "miami";
+const outputPath = resolve(packageDir, "src/tracks", `${trackId}.json`);
+
+const GLB_MAGIC = 0x46546c67;
+const JSON_CHUNK = 0x4e4f534a;
+
+function readGltfJson(path) {
+  const buffer = readFileSync(path);
+  if (buffer.readUInt32LE(0) !== GLB_MAGIC) throw new Error(`${path} is not a GLB file`);
+  // the JSON chunk always comes first, right after the 12 bytes header
+  const chunkLength = buffer.readUInt32LE(12);
+  if (buffer.readUInt32LE(16) !== JSON_CHUNK) throw new Error(`${path} has no JSON chunk`);
+  return JSON.parse(buffer.toString("utf8", 20, 20 + chunkLength));
+}
+
+const nodes = getGltfTrackNodes(readGltfJson(glbPath));
+const definition = parseTrackDefinition(trackId, nodes);
+if (!definition) {
+  console.error(
+    `${glbPath} has no valid start-line, checkpoint-N and spawn-N nodes (found ${nodes.length}), ` +
+      `${outputPath} is left as it is`,
+  );
+  process.exit(1);
+}
+
+writeFileSync(outputPath, JSON.stringify(definition, null, 2) + "\n");
+console.log(
+  `Wrote ${outputPath}: ${definition.checkpoints.length} checkpoints, ${definition.spawns.length} spawns` +
+    (definition.bounds ? ", bounds" : ", no bounds"),
+);
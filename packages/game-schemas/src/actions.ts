@@ -6,6 +6,10 @@ import { PresenceSchema } from "./presence";
 export const InitUserAction = z.object({
   type: z.literal("init-user"),
   payload: PresenceSchema,
+  /** Binary presence protocol version supported by the client, JSON only if missing */
+  protocol: z.number().optional(),
+  /** Session token of a dropped connection, resumes its player within the grace window */
+  session: z.string().optional(),
 });
 
 export type InitUserActionType = z.infer<typeof InitUserAction>;
@@ -13,14 +17,47 @@ export type InitUserActionType = z.infer<typeof InitUserAction>;
 export const UpdatePresenceAction = z.object({
   type: z.literal("update-presence"),
   payload: PresenceSchema.partial(),
+  /** Last sync-presence tick the client rebuilt, the server sends deltas against it */
+  ack: z.number().optional(),
 });
 
 export type UpdatePresenceActionType = z.infer<typeof UpdatePresenceAction>;
 
+export const StartRaceAction = z.object({
+  type: z.literal("start-race"),
+});
+
+export type StartRaceActionType = z.infer<typeof StartRaceAction>;
+
+/** Clock synchronization request, answered with a pong */
+export const PingAction = z.object({
+  type: z.literal("ping"),
+  payload: z.object({
+    /** Client clock when the ping was sent */
+    clientTime: z.number(),
+  }),
+});
+
+export type PingActionType = z.infer<typeof PingAction>;
+
+/** Sent when the local car touches a remote one, the server decides if it was a bump */
+export const CollisionAction = z.object({
+  type: z.literal("collision"),
+  payload: z.object({
+    /** Player id of the other car */
+    id: z.string(),
+  }),
+});
+
+export type CollisionActionType = z.infer<typeof CollisionAction>;
+
 // Union of all possible client actions
 export const ClientActionSchema = z.discriminatedUnion("type", [
   InitUserAction,
   UpdatePresenceAction,
+  StartRaceAction,
+  PingAction,
+  CollisionAction,
 ]);
 
 export type ClientAction = z.infer<typeof ClientActionSchema>;
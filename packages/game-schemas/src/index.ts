@@ -1,5 +1,14 @@
 export * from "./user";
 export * from "./presence";
+export * from "./race";
+export * from "./track";
+export * from "./track-gltf";
+export * from "./tracks";
+export * from "./vehicle";
+export * from "./lobby";
+export * from "./leaderboard";
 export * from "./utils";
 export * from "./messages";
-export * from "./actions";
\ No newline at end of file
+export * from "./actions";
+export * from "./presence-codec";
+export * from "./presence-delta";
\ No newline at end of file
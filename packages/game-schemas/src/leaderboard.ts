@@ -0,0 +1,50 @@
+/**
+ * Best times per track, kept by the game server in durable storage
+ * Players have no accounts, so the name is the identity: names that only
+ * differ in case or spacing share one entry.
+ */
+
+import { z } from "zod";
+
+/** Entries sent to clients when the leaderboard changes */
+export const LEADERBOARD_SIZE = 10;
+/** Entries kept per track, the slowest are dropped */
+export const MAX_LEADERBOARD_ENTRIES = 100;
+
+export const LeaderboardEntrySchema = z.object({
+  /** Display name of the last time the entry improved */
+  name: z.string(),
+  /** Best lap time in ms */
+  bestLap: z.number().nullable(),
+  /** Best total race time in ms */
+  bestRace: z.number().nullable(),
+  /** Races finished */
+  races: z.number().int(),
+  wins: z.number().int(),
+  /** Server time of the last update */
+  updatedAt: z.number(),
+});
+
+export type LeaderboardEntryType = z.infer<typeof LeaderboardEntrySchema>;
+
+/** Query of GET /leaderboard */
+export const LeaderboardQuerySchema = z.object({
+  /** Defaults to the track of the room */
+  track: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LEADERBOARD_ENTRIES).default(LEADERBOARD_SIZE),
+});
+
+export type LeaderboardQueryType = z.infer<typeof LeaderboardQuerySchema>;
+
+export const LeaderboardSchema = z.object({
+  trackId: z.string(),
+  /** Sorted by best lap, then by best race */
+  entries: z.array(LeaderboardEntrySchema),
+});
+
+export type LeaderboardType = z.infer<typeof LeaderboardSchema>;
+
+/** Normalized name used as the entry key */
+export function getLeaderboardKey(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
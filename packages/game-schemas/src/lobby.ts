@@ -0,0 +1,61 @@
+/**
+ * Lobby data: the rooms registered by the game server
+ * Rooms own their settings and report their player count to the lobby party.
+ */
+
+import { z } from "zod";
+
+/** Party and room the lobby lives in, see partykit.json */
+export const LOBBY_PARTY = "lobby";
+export const LOBBY_ROOM_ID = "main";
+
+export const MIN_ROOM_PLAYERS = 2;
+export const MAX_ROOM_PLAYERS = 64;
+
+export const RoomIdSchema = z.string().regex(/^[a-z0-9-]{3,32}$/);
+
+export const RoomSettingsSchema = z.object({
+  maxPlayers: z.number().int().min(MIN_ROOM_PLAYERS).max(MAX_ROOM_PLAYERS),
+  /** Players need it to join, the room only keeps a hash */
+  password: z.string().min(1).max(64).optional(),
+});
+
+export type RoomSettingsType = z.infer<typeof RoomSettingsSchema>;
+
+export const RoomInfoSchema = z.object({
+  id: RoomIdSchema,
+  players: z.number().int().min(0),
+  /** Null for rooms nobody created, like the track rooms, they have no cap */
+  maxPlayers: z.number().int().nullable(),
+  hasPassword: z.boolean(),
+  /** Server time of the last update from the room */
+  updatedAt: z.number(),
+});
+
+export type RoomInfoType = z.infer<typeof RoomInfoSchema>;
+
+// Game room -> lobby
+export const RoomUpdateRequest = z.object({
+  type: z.literal("room-update"),
+  payload: RoomInfoSchema,
+});
+
+export type RoomUpdateRequestType = z.infer<typeof RoomUpdateRequest>;
+
+// Client -> game room, over http before anyone joins
+export const CreateRoomRequest = z.object({
+  type: z.literal("create-room"),
+  payload: RoomSettingsSchema,
+});
+
+export type CreateRoomRequestType = z.infer<typeof CreateRoomRequest>;
+
+// Lobby -> clients
+export const LobbyRoomsMessage = z.object({
+  type: z.literal("lobby-rooms"),
+  payload: z.object({
+    rooms: z.array(RoomInfoSchema),
+  }),
+});
+
+export type LobbyRoomsMessageType = z.infer<typeof LobbyRoomsMessage>;
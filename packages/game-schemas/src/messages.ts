@@ -2,6 +2,9 @@
 
 import { z } from "zod";
 import { PresenceSchema } from "./presence";
+import { RaceResultSchema, RaceStateSchema } from "./race";
+import { LeaderboardSchema } from "./leaderboard";
+import { Vector3Schema } from "./utils";
 
 export const PlayerAddedMessage = z.object({
   type: z.literal("player-added"),
@@ -24,9 +27,38 @@ export const PlayerRemovedMessage = z.object({
 
 export type PlayerRemovedMessageType = z.infer<typeof PlayerRemovedMessage>;
 
+/** The connection of a player dropped, its car stays until the session expires */
+export const PlayerDisconnectedMessage = z.object({
+  type: z.literal("player-disconnected"),
+  payload: z.object({
+    id: z.string(),
+  }),
+});
+
+export type PlayerDisconnectedMessageType = z.infer<typeof PlayerDisconnectedMessage>;
+
+/** A disconnected player came back, possibly with a new connection id */
+export const PlayerResumedMessage = z.object({
+  type: z.literal("player-resumed"),
+  payload: z.object({
+    /** Id of the dropped connection */
+    previousId: z.string(),
+    id: z.string(),
+    presence: PresenceSchema,
+  }),
+});
+
+export type PlayerResumedMessageType = z.infer<typeof PlayerResumedMessage>;
+
 export const SyncPresenceMessage = z.object({
   type: z.literal("sync-presence"),
   payload: z.object({
+    /** Server tick the changes were flushed on, increases with the server clock */
+    tick: z.number(),
+    /** Tick of the previous sync-presence sent to this client, missing when it starts over */
+    previousTick: z.number().optional(),
+    /** Acknowledged tick the users are deltas of, missing for a full snapshot */
+    baseline: z.number().optional(),
     users: z.record(z.string(), PresenceSchema.partial()),
   }),
 });
@@ -44,12 +76,145 @@ export type PullServerPresenceMessageType = z.infer<
   typeof PullServerPresenceMessage
 >;
 
+/** Sent after init-user when the server accepts the binary presence protocol */
+export const ProtocolMessage = z.object({
+  type: z.literal("protocol"),
+  payload: z.object({
+    version: z.number(),
+  }),
+});
+
+export type ProtocolMessageType = z.infer<typeof ProtocolMessage>;
+
+/** Sent after init-user, the token resumes the player if the connection drops */
+export const SessionMessage = z.object({
+  type: z.literal("session"),
+  payload: z.object({
+    token: z.string(),
+    /** True when the token of a dropped connection was accepted */
+    resumed: z.boolean(),
+    /** How long the player is kept after the connection drops, in ms */
+    graceMs: z.number(),
+  }),
+});
+
+export type SessionMessageType = z.infer<typeof SessionMessage>;
+
+export const PongMessage = z.object({
+  type: z.literal("pong"),
+  payload: z.object({
+    /** Client clock from the ping, echoed back */
+    clientTime: z.number(),
+    /** Server clock when the ping was answered */
+    serverTime: z.number(),
+  }),
+});
+
+export type PongMessageType = z.infer<typeof PongMessage>;
+
+export const RaceStateMessage = z.object({
+  type: z.literal("race-state"),
+  payload: RaceStateSchema,
+});
+
+export type RaceStateMessageType = z.infer<typeof RaceStateMessage>;
+
+export const LapCompletedMessage = z.object({
+  type: z.literal("lap-completed"),
+  payload: z.object({
+    id: z.string(),
+    /** Number of the lap that was completed */
+    lap: z.number(),
+    /** Lap time in ms */
+    lapTime: z.number(),
+    /** Time since the race start in ms */
+    totalTime: z.number(),
+    bestLap: z.number(),
+  }),
+});
+
+export type LapCompletedMessageType = z.infer<typeof LapCompletedMessage>;
+
+export const RaceResultsMessage = z.object({
+  type: z.literal("race-results"),
+  payload: z.object({
+    results: z.array(RaceResultSchema),
+  }),
+});
+
+export type RaceResultsMessageType = z.infer<typeof RaceResultsMessage>;
+
+export const PresenceViolationSchema = z.enum([
+  "rate-limit",
+  "displacement",
+  "speed",
+  "bounds",
+  "profile-change",
+  "turbo",
+]);
+
+export type PresenceViolationType = z.infer<typeof PresenceViolationSchema>;
+
+/** Sent to a client when the server rejected part of its presence update */
+export const ServerCorrectionMessage = z.object({
+  type: z.literal("server-correction"),
+  payload: z.object({
+    /** Authoritative values the client has to apply */
+    presence: PresenceSchema.pick({ name: true, color: true, emoji: true, pos: true }).partial(),
+    violations: z.array(PresenceViolationSchema),
+  }),
+});
+
+export type ServerCorrectionMessageType = z.infer<typeof ServerCorrectionMessage>;
+
+/** Sent right before the server closes a connection it didn't accept */
+export const RoomErrorMessage = z.object({
+  type: z.literal("room-error"),
+  payload: z.object({
+    reason: z.enum(["invalid-password", "room-full"]),
+  }),
+});
+
+export type RoomErrorMessageType = z.infer<typeof RoomErrorMessage>;
+
+/** Sent on connect and every time the leaderboard of the room track changes */
+export const LeaderboardUpdatedMessage = z.object({
+  type: z.literal("leaderboard-updated"),
+  payload: LeaderboardSchema,
+});
+
+export type LeaderboardUpdatedMessageType = z.infer<typeof LeaderboardUpdatedMessage>;
+
+/** Sent to both cars of an accepted collision */
+export const CarCollisionMessage = z.object({
+  type: z.literal("car-collision"),
+  payload: z.object({
+    ids: z.tuple([z.string(), z.string()]),
+    /** Impulse applied to the first car, the second one gets the opposite */
+    impulse: Vector3Schema,
+  }),
+});
+
+export type CarCollisionMessageType = z.infer<typeof CarCollisionMessage>;
+
 // Union of all possible server messages
 export const ServerMessageSchema = z.discriminatedUnion("type", [
   SyncPresenceMessage,
   PlayerAddedMessage,
   PlayerRemovedMessage,
+  PlayerDisconnectedMessage,
+  PlayerResumedMessage,
   PullServerPresenceMessage,
+  ProtocolMessage,
+  SessionMessage,
+  PongMessage,
+  RaceStateMessage,
+  LapCompletedMessage,
+  RaceResultsMessage,
+  ServerCorrectionMessage,
+  RoomErrorMessage,
+  LeaderboardUpdatedMessage,
+  CarCollisionMessage,
 ]);
 
 export type ServerMessage = z.infer<typeof ServerMessageSchema>; 
\ No newline at end of file
@@ -0,0 +1,416 @@
+/**
+ * Compact binary encoding for the high frequency presence messages
+ * (`update-presence` and `sync-presence`), every other message stays JSON.
+ *
+ * Layout: [version u8][kind u8][body]
+ * - update-presence body: presence block, varint acknowledged tick + 1 (0 when missing)
+ * - sync-presence body: varint tick, varint previous tick + 1, varint baseline tick + 1,
+ *   varint user count, then per user: string id + presence block
+ *
+ * Presence block: [field mask varint] followed by the fields present, in mask order
+ * - pos: zigzag varints, quantized to POSITION_SCALE
+ * - vel: zigzag varints, quantized to VELOCITY_SCALE
+ * - rot: smallest-three quaternion packed in 32 bits
+ * - wheel: u16 wheel rotation wrapped to WHEEL_ROTATION_PERIOD + i8 steering
+ * - timestamp: varint of the rounded ms
+ * - name: varint byte length + utf8
+ * - color: 24 bit rgb
+ * - emoji: varint byte length + utf8
+ * - bot: u8 0 or 1
+ * - turbo: u8, charge tier in the low nibble and boost tier in the high one
+ */
+
+import type { UpdatePresenceActionType } from "./actions";
+import type { SyncPresenceType } from "./messages";
+import type { PresenceType } from "./presence";
+
+export const PRESENCE_PROTOCOL_VERSION = 6;
+
+export type BinaryPresenceMessage = UpdatePresenceActionType | SyncPresenceType;
+
+type PartialPresence = Partial<PresenceType>;
+
+const MESSAGE_KIND = {
+  "update-presence": 1,
+  "sync-presence": 2,
+} as const;
+
+const FIELD = {
+  pos: 1 << 0,
+  vel: 1 << 1,
+  rot: 1 << 2,
+  wheel: 1 << 3,
+  timestamp: 1 << 4,
+  name: 1 << 5,
+  color: 1 << 6,
+  emoji: 1 << 7,
+  bot: 1 << 8,
+  turbo: 1 << 9,
+} as const;
+
+/** 1mm precision */
+const POSITION_SCALE = 1000;
+/** 1cm/s precision */
+const VELOCITY_SCALE = 100;
+const STEERING_SCALE = 100;
+/** The car body renders wheels at `wheel.x * 0.2` radians, so it repeats every 10π */
+export const WHEEL_ROTATION_PERIOD = 10 * Math.PI;
+
+const QUATERNION_BITS = 10;
+const QUATERNION_MAX = (1 << QUATERNION_BITS) - 1;
+const QUATERNION_RANGE = Math.SQRT1_2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buffer = new Uint8Array(64);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private ensure(size: number) {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer);
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  i8(value: number) {
+    this.ensure(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  /** Unsigned LEB128, safe up to Number.MAX_SAFE_INTEGER */
+  varint(value: number) {
+    let remaining = Math.max(0, Math.floor(value));
+    while (remaining >= 0x80) {
+      this.u8((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.u8(remaining);
+  }
+
+  zigzag(value: number) {
+    const rounded = Math.round(value);
+    this.varint(rounded < 0 ? -rounded * 2 - 1 : rounded * 2);
+  }
+
+  string(value: string) {
+    const bytes = textEncoder.encode(value);
+    this.varint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  finish() {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8() {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  i8() {
+    const value = this.view.getInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16() {
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  varint() {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 0x80;
+    }
+  }
+
+  zigzag() {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  string() {
+    const length = this.varint();
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError("String out of bounds");
+    }
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+function writeQuaternion(writer: ByteWriter, q: PresenceType["rot"]) {
+  const components = [q.x, q.y, q.z, q.w];
+  let largest = 0;
+  for (let i = 1; i < 4; i++) {
+    if (Math.abs(components[i]) > Math.abs(components[largest])) largest = i;
+  }
+  // q and -q are the same rotation, keep the dropped component positive
+  const sign = components[largest] < 0 ? -1 : 1;
+
+  let packed = largest;
+  for (let i = 0; i < 4; i++) {
+    if (i === largest) continue;
+    const normalized = (components[i] * sign + QUATERNION_RANGE) / (2 * QUATERNION_RANGE);
+    const quantized = Math.round(Math.min(1, Math.max(0, normalized)) * QUATERNION_MAX);
+    packed = packed * (1 << QUATERNION_BITS) + quantized;
+  }
+  writer.u32(packed);
+}
+
+function readQuaternion(reader: ByteReader): PresenceType["rot"] {
+  let packed = reader.u32();
+  const values: number[] = [];
+  for (let i = 0; i < 3; i++) {
+    const quantized = packed % (1 << QUATERNION_BITS);
+    packed = Math.floor(packed / (1 << QUATERNION_BITS));
+    values.unshift((quantized / QUATERNION_MAX) * 2 * QUATERNION_RANGE - QUATERNION_RANGE);
+  }
+  const largest = packed;
+
+  const sumSquares = values.reduce((sum, value) => sum + value * value, 0);
+  const components = [...values];
+  components.splice(largest, 0, Math.sqrt(Math.max(0, 1 - sumSquares)));
+
+  return { x: components[0], y: components[1], z: components[2], w: components[3] };
+}
+
+function writePresence(writer: ByteWriter, presence: PartialPresence) {
+  let mask = 0;
+  if (presence.pos) mask |= FIELD.pos;
+  if (presence.vel) mask |= FIELD.vel;
+  if (presence.rot) mask |= FIELD.rot;
+  if (presence.wheel) mask |= FIELD.wheel;
+  if (presence.timestamp !== undefined) mask |= FIELD.timestamp;
+  if (presence.name !== undefined) mask |= FIELD.name;
+  if (presence.color !== undefined) mask |= FIELD.color;
+  if (presence.emoji !== undefined) mask |= FIELD.emoji;
+  if (presence.bot !== undefined) mask |= FIELD.bot;
+  if (presence.turbo) mask |= FIELD.turbo;
+  writer.varint(mask);
+
+  if (presence.pos) {
+    writer.zigzag(presence.pos.x * POSITION_SCALE);
+    writer.zigzag(presence.pos.y * POSITION_SCALE);
+    writer.zigzag(presence.pos.z * POSITION_SCALE);
+  }
+  if (presence.vel) {
+    writer.zigzag(presence.vel.x * VELOCITY_SCALE);
+    writer.zigzag(presence.vel.y * VELOCITY_SCALE);
+    writer.zigzag(presence.vel.z * VELOCITY_SCALE);
+  }
+  if (presence.rot) {
+    writeQuaternion(writer, presence.rot);
+  }
+  if (presence.wheel) {
+    const wrapped =
+      ((presence.wheel.x % WHEEL_ROTATION_PERIOD) + WHEEL_ROTATION_PERIOD) % WHEEL_ROTATION_PERIOD;
+    writer.u16(Math.round((wrapped / WHEEL_ROTATION_PERIOD) * 0xffff));
+    writer.i8(Math.max(-127, Math.min(127, Math.round(presence.wheel.y * STEERING_SCALE))));
+  }
+  if (presence.timestamp !== undefined) {
+    writer.varint(Math.round(presence.timestamp));
+  }
+  if (presence.name !== undefined) {
+    writer.string(presence.name);
+  }
+  if (presence.color !== undefined) {
+    const rgb = parseInt(presence.color.slice(1), 16);
+    writer.u8((rgb >> 16) & 0xff);
+    writer.u16(rgb & 0xffff);
+  }
+  if (presence.emoji !== undefined) {
+    writer.string(presence.emoji);
+  }
+  if (presence.bot !== undefined) {
+    writer.u8(presence.bot ? 1 : 0);
+  }
+  if (presence.turbo) {
+    writer.u8((presence.turbo.charge & 0x0f) | ((presence.turbo.boost & 0x0f) << 4));
+  }
+}
+
+function readPresence(reader: ByteReader): PartialPresence {
+  const mask = reader.varint();
+  const presence: PartialPresence = {};
+
+  if (mask & FIELD.pos) {
+    presence.pos = {
+      x: reader.zigzag() / POSITION_SCALE,
+      y: reader.zigzag() / POSITION_SCALE,
+      z: reader.zigzag() / POSITION_SCALE,
+    };
+  }
+  if (mask & FIELD.vel) {
+    presence.vel = {
+      x: reader.zigzag() / VELOCITY_SCALE,
+      y: reader.zigzag() / VELOCITY_SCALE,
+      z: reader.zigzag() / VELOCITY_SCALE,
+    };
+  }
+  if (mask & FIELD.rot) {
+    presence.rot = readQuaternion(reader);
+  }
+  if (mask & FIELD.wheel) {
+    presence.wheel = {
+      x: (reader.u16() / 0xffff) * WHEEL_ROTATION_PERIOD,
+      y: reader.i8() / STEERING_SCALE,
+    };
+  }
+  if (mask & FIELD.timestamp) {
+    presence.timestamp = reader.varint();
+  }
+  if (mask & FIELD.name) {
+    presence.name = reader.string();
+  }
+  if (mask & FIELD.color) {
+    const rgb = (reader.u8() << 16) | reader.u16();
+    presence.color = `#${rgb.toString(16).padStart(6, "0")}`;
+  }
+  if (mask & FIELD.emoji) {
+    presence.emoji = reader.string();
+  }
+  if (mask & FIELD.bot) {
+    presence.bot = reader.u8() === 1;
+  }
+  if (mask & FIELD.turbo) {
+    const turbo = reader.u8();
+    presence.turbo = { charge: turbo & 0x0f, boost: turbo >> 4 };
+  }
+
+  return presence;
+}
+
+/** Rounds the fields to the precision of the binary encoding, so JSON and binary clients get the same values */
+export function quantizePresence(presence: PartialPresence): PartialPresence {
+  const writer = new ByteWriter();
+  writePresence(writer, presence);
+  return readPresence(new ByteReader(writer.finish()));
+}
+
+function writeOptionalTick(writer: ByteWriter, tick: number | undefined) {
+  writer.varint(tick === undefined ? 0 : tick + 1);
+}
+
+function readOptionalTick(reader: ByteReader) {
+  const value = reader.varint();
+  return value === 0 ? undefined : value - 1;
+}
+
+export function isBinaryPresenceMessage(message: unknown): message is BinaryPresenceMessage {
+  if (!message || typeof message !== "object" || !("type" in message)) return false;
+  return message.type === "update-presence" || message.type === "sync-presence";
+}
+
+export function encodePresenceMessage(message: BinaryPresenceMessage): Uint8Array {
+  const writer = new ByteWriter();
+  writer.u8(PRESENCE_PROTOCOL_VERSION);
+  writer.u8(MESSAGE_KIND[message.type]);
+
+  if (message.type === "update-presence") {
+    writePresence(writer, message.payload);
+    writeOptionalTick(writer, message.ack);
+  } else {
+    const { tick, previousTick, baseline } = message.payload;
+    writer.varint(tick);
+    writeOptionalTick(writer, previousTick);
+    writeOptionalTick(writer, baseline);
+    const entries = Object.entries(message.payload.users);
+    writer.varint(entries.length);
+    for (const [id, presence] of entries) {
+      writer.string(id);
+      writePresence(writer, presence);
+    }
+  }
+
+  return writer.finish();
+}
+
+/** Throws if the data is not a valid binary presence message */
+export function decodePresenceMessage(data: ArrayBuffer | ArrayBufferView): BinaryPresenceMessage {
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  const reader = new ByteReader(bytes);
+
+  const version = reader.u8();
+  if (version !== PRESENCE_PROTOCOL_VERSION) {
+    throw new Error(`Unsupported presence protocol version ${version}`);
+  }
+
+  const kind = reader.u8();
+  switch (kind) {
+    case MESSAGE_KIND["update-presence"]: {
+      const payload = readPresence(reader);
+      const ack = readOptionalTick(reader);
+      return ack === undefined ? { type: "update-presence", payload } : { type: "update-presence", payload, ack };
+    }
+    case MESSAGE_KIND["sync-presence"]: {
+      const tick = reader.varint();
+      const previousTick = readOptionalTick(reader);
+      const baseline = readOptionalTick(reader);
+      const count = reader.varint();
+      const users: SyncPresenceType["payload"]["users"] = {};
+      for (let i = 0; i < count; i++) {
+        const id = reader.string();
+        users[id] = readPresence(reader);
+      }
+      const payload: SyncPresenceType["payload"] = { tick, users };
+      if (previousTick !== undefined) payload.previousTick = previousTick;
+      if (baseline !== undefined) payload.baseline = baseline;
+      return { type: "sync-presence", payload };
+    }
+    default:
+      throw new Error(`Unknown presence message kind ${kind}`);
+  }
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import type { PresenceType } from "./presence";
+import { quantizePresence } from "./presence-codec";
+import {
+  diffPresence,
+  MAX_BASELINE_AGE_TICKS,
+  PresenceDeltaDecoder,
+  PresenceDeltaEncoder,
+} from "./presence-delta";
+
+function createPresence(x: number, overrides: Partial<PresenceType> = {}): PresenceType {
+  return {
+    name: "Player",
+    color: "#ff0000",
+    emoji: "",
+    pos: { x, y: 0.01, z: 2 },
+    vel: { x: 1, y: 0, z: 0 },
+    rot: { x: 0, y: 0, z: 0, w: 1 },
+    wheel: { x: 0, y: 0 },
+    timestamp: 1000,
+    ...overrides,
+  };
+}
+
+/** Encodes a tick, decodes it on the client and acknowledges it like the game does */
+function sync(
+  encoder: PresenceDeltaEncoder,
+  decoder: PresenceDeltaDecoder,
+  tick: number,
+  users: Record<string, PresenceType>,
+  { ack = true } = {}
+) {
+  const payload = encoder.encode(tick, Object.entries(users));
+  if (!payload) return { payload, decoded: null };
+  const decoded = decoder.decode({ tick, ...payload });
+  if (ack && decoder.ackTick !== undefined) encoder.ack(decoder.ackTick);
+  return { payload, decoded };
+}
+
+describe("diffPresence", () => {
+  it("returns the whole presence without a baseline", () => {
+    const presence = createPresence(1);
+    expect(diffPresence(undefined, presence)).toBe(presence);
+  });
+
+  it("ignores nested fields equal by value", () => {
+    const baseline = createPresence(1);
+    const presence = createPresence(1, { rot: { ...baseline.rot }, wheel: { x: 0, y: 0 } });
+    expect(presence.pos).not.toBe(baseline.pos);
+    expect(diffPresence(baseline, presence)).toBeNull();
+  });
+
+  it("keeps only the changed fields", () => {
+    const baseline = createPresence(1);
+    const presence = createPresence(2, { name: "Player" });
+    expect(diffPresence(baseline, presence)).toEqual({ pos: presence.pos });
+  });
+});
+
+describe("PresenceDeltaEncoder and PresenceDeltaDecoder", () => {
+  it("sends a full snapshot until a tick is acknowledged", () => {
+    const encoder = new PresenceDeltaEncoder();
+    const decoder = new PresenceDeltaDecoder();
+
+    const first = sync(encoder, decoder, 1, { a: createPresence(1) }, { ack: false });
+    expect(first.payload?.baseline).toBeUndefined();
+    expect(first.decoded).toEqual({ a: quantizePresence(createPresence(1)) });
+
+    const second = sync(encoder, decoder, 2, { a: createPresence(2) });
+    expect(second.payload?.baseline).toBeUndefined();
+    expect(second.payload?.users.a).toEqual(quantizePresence(createPresence(2)));
+    expect(decoder.ackTick).toBe(2);
+  });
+
+  it("sends the changed fields against the acknowledged tick", () => {
+    const encoder = new PresenceDeltaEncoder();
+    const decoder = new PresenceDeltaDecoder();
+    sync(encoder, decoder, 1, { a: createPresence(1), b: createPresence(5) });
+
+    const { payload, decoded } = sync(encoder, decoder, 2, {
+      a: createPresence(2),
+      b: createPresence(5),
+    });
+    expect(payload).toEqual({ baseline: 1, users: { a: { pos: quantizePresence(createPresence(2)).pos } } });
+    expect(decoded).toEqual({ a: quantizePresence(createPresence(2)) });
+  });
+
+  it("returns null when nothing changed", () => {
+    const encoder = new PresenceDeltaEncoder();
+    const decoder = new PresenceDeltaDecoder();
+    sync(encoder, decoder, 1, { a: createPresence(1) });
+
+    expect(encoder.encode(2, [["a", createPresence(1)]])).toBeNull();
+  });
+
+  it("agrees on the baseline when acknowledgements are skipped", () => {
+    const encoder = new PresenceDeltaEncoder();
+    const decoder = new PresenceDeltaDecoder();
+    sync(encoder, decoder, 1, { a: createPresence(1), b: createPresence(5) });
+
+    // tick 2 is decoded but its acknowledgement is lost
+    sync(encoder, decoder, 2, { a: createPresence(2), b: createPresence(5) }, { ack: false });
+
+    const { payload, decoded } = sync(encoder, decoder, 3, {
+      a: createPresence(2),
+      b: createPresence(6),
+    });
+    // still against tick 1, so a is sent again
+    expect(payload?.baseline).toBe(1);
+    expect(Object.keys(payload!.users).sort()).toEqual(["a", "b"]);
+    expect(decoded).toEqual({
+      a: quantizePresence(createPresence(2)),
+      b: quantizePresence(createPresence(6)),
+    });
+  });
+
+  it("falls back to a full snapshot once the baseline is evicted", () => {
+    const encoder = new PresenceDeltaEncoder();
+    const decoder = new PresenceDeltaDecoder();
+    sync(encoder, decoder, 1, { a: createPresence(1) });
+
+    // the client stops acknowledging, the baseline ages out of the history
+    for (let tick = 2; tick <= MAX_BASELINE_AGE_TICKS + 1; tick++) {
+      const { payload } = sync(encoder, decoder, tick, { a: createPresence(tick) }, { ack: false });
+      expect(payload?.baseline).toBe(1);
+    }
+
+    const { payload, decoded } = sync(encoder, decoder, MAX_BASELINE_AGE_TICKS + 2, {
+      a: createPresence(0, { name: "Renamed" }),
+    });
+    expect(encoder.history.get(1)).toBeUndefined();
+    expect(payload?.baseline).toBeUndefined();
+    expect(payload?.users.a).toEqual(quantizePresence(createPresence(0, { name: "Renamed" })));
+    expect(decoded?.a).toEqual(quantizePresence(createPresence(0, { name: "Renamed" })));
+  });
+
+  it("can't decode a delta against a baseline it never had", () => {
+    const decoder = new PresenceDeltaDecoder();
+    expect(decoder.decode({ tick: 5, baseline: 4, users: { a: { pos: { x: 1, y: 0, z: 0 } } } })).toBeNull();
+    expect(decoder.ackTick).toBeUndefined();
+  });
+
+  it("sends a removed user in full when it comes back", () => {
+    const encoder = new PresenceDeltaEncoder();
+    const decoder = new PresenceDeltaDecoder();
+    sync(encoder, decoder, 1, { a: createPresence(1), b: createPresence(5) });
+
+    encoder.remove("b");
+    decoder.remove("b");
+    expect(decoder.history.get(1)?.has("b")).toBe(false);
+
+    const { payload, decoded } = sync(encoder, decoder, 2, {
+      a: createPresence(1),
+      b: createPresence(5),
+    });
+    expect(payload).toEqual({ baseline: 1, users: { b: quantizePresence(createPresence(5)) } });
+    expect(decoded).toEqual({ b: quantizePresence(createPresence(5)) });
+  });
+
+  it("starts over after a reset", () => {
+    const encoder = new PresenceDeltaEncoder();
+    const decoder = new PresenceDeltaDecoder();
+    sync(encoder, decoder, 1, { a: createPresence(1) });
+
+    decoder.reset();
+    expect(decoder.ackTick).toBeUndefined();
+    expect(decoder.decode({ tick: 2, baseline: 1, users: { a: { pos: { x: 2, y: 0, z: 0 } } } })).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Delta compressed presence for `sync-presence`
+ * The server keeps the snapshots it sent to each client on recent ticks, and
+ * the client acknowledges the ticks it rebuilt. Every message only carries the
+ * fields that changed since the acknowledged tick, quantized to the binary
+ * encoding precision. Without a usable baseline a full snapshot is sent.
+ *
+ * Both sides store the snapshot of a tick as its baseline snapshot with the
+ * users of the message applied, so they agree on every baseline.
+ */
+
+import type { SyncPresenceType } from "./messages";
+import type { PresenceType } from "./presence";
+import { quantizePresence } from "./presence-codec";
+
+type PartialPresence = Partial<PresenceType>;
+
+/** Ticks a baseline stays usable, older acknowledgements get a full snapshot */
+export const MAX_BASELINE_AGE_TICKS = 60;
+
+/** Presence of every user known to a client on a tick */
+export type PresenceSnapshot = Map<string, PartialPresence>;
+
+function isSameValue(a: unknown, b: unknown) {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(
+    (key) => (a as Record<string, unknown>)[key] === (b as Record<string, unknown>)[key]
+  );
+}
+
+/** Fields of the presence that differ from the baseline, null when nothing changed */
+export function diffPresence(
+  baseline: PartialPresence | undefined,
+  presence: PartialPresence
+): PartialPresence | null {
+  if (!baseline) return presence;
+
+  const delta: Record<string, unknown> = {};
+  let changed = false;
+  for (const [key, value] of Object.entries(presence)) {
+    if (value === undefined || isSameValue(baseline[key as keyof PresenceType], value)) continue;
+    delta[key] = value;
+    changed = true;
+  }
+  return changed ? (delta as PartialPresence) : null;
+}
+
+/** Snapshots of the recent ticks, the older ones are dropped */
+export class SnapshotHistory {
+  private snapshots = new Map<number, PresenceSnapshot>();
+
+  constructor(readonly maxAge = MAX_BASELINE_AGE_TICKS) {}
+
+  get(tick: number) {
+    return this.snapshots.get(tick);
+  }
+
+  set(tick: number, snapshot: PresenceSnapshot) {
+    this.snapshots.set(tick, snapshot);
+    for (const stored of this.snapshots.keys()) {
+      if (stored <= tick - this.maxAge) this.snapshots.delete(stored);
+    }
+  }
+
+  /** Forgets a user that left, it's sent in full if it comes back */
+  remove(id: string) {
+    for (const snapshot of this.snapshots.values()) {
+      snapshot.delete(id);
+    }
+  }
+
+  clear() {
+    this.snapshots.clear();
+  }
+}
+
+/** Server side, builds the messages of one client */
+export class PresenceDeltaEncoder {
+  readonly history: SnapshotHistory;
+  private ackedTick: number | null = null;
+
+  constructor(maxAge = MAX_BASELINE_AGE_TICKS) {
+    this.history = new SnapshotHistory(maxAge);
+  }
+
+  ack(tick: number) {
+    if (this.ackedTick === null || tick > this.ackedTick) this.ackedTick = tick;
+  }
+
+  /**
+   * Deltas of the users against the acknowledged baseline
+   * Returns null when none of them changed
+   */
+  encode(
+    tick: number,
+    users: Iterable<[string, PresenceType]>
+  ): Pick<SyncPresenceType["payload"], "baseline" | "users"> | null {
+    const baseline = this.ackedTick === null ? undefined : this.ackedTick;
+    const baselineSnapshot = baseline === undefined ? undefined : this.history.get(baseline);
+    const snapshot: PresenceSnapshot = new Map(baselineSnapshot);
+    const deltas: SyncPresenceType["payload"]["users"] = {};
+    let count = 0;
+
+    for (const [id, presence] of users) {
+      const quantized = quantizePresence(presence);
+      const delta = diffPresence(baselineSnapshot?.get(id), quantized);
+      if (!delta) continue;
+      deltas[id] = delta;
+      snapshot.set(id, { ...baselineSnapshot?.get(id), ...quantized });
+      count++;
+    }
+
+    if (count === 0) return null;
+    this.history.set(tick, snapshot);
+    return baselineSnapshot ? { baseline, users: deltas } : { users: deltas };
+  }
+
+  remove(id: string) {
+    this.history.remove(id);
+  }
+}
+
+/** Client side, rebuilds the presences of the server messages */
+export class PresenceDeltaDecoder {
+  readonly history: SnapshotHistory;
+  /** Last tick rebuilt, sent back as acknowledgement */
+  ackTick: number | undefined = undefined;
+
+  constructor(maxAge = MAX_BASELINE_AGE_TICKS) {
+    this.history = new SnapshotHistory(maxAge);
+  }
+
+  /** Full presences of the users in the message, null when its baseline is unknown */
+  decode({
+    tick,
+    baseline,
+    users,
+  }: SyncPresenceType["payload"]): SyncPresenceType["payload"]["users"] | null {
+    const baselineSnapshot = baseline === undefined ? new Map() : this.history.get(baseline);
+    if (!baselineSnapshot) return null;
+
+    const snapshot: PresenceSnapshot = new Map(baselineSnapshot);
+    const decoded: SyncPresenceType["payload"]["users"] = {};
+    for (const [id, delta] of Object.entries(users)) {
+      const presence = { ...baselineSnapshot.get(id), ...delta };
+      snapshot.set(id, presence);
+      decoded[id] = presence;
+    }
+
+    this.history.set(tick, snapshot);
+    if (this.ackTick === undefined || tick > this.ackTick) this.ackTick = tick;
+    return decoded;
+  }
+
+  remove(id: string) {
+    this.history.remove(id);
+  }
+
+  /** A new connection starts without baselines */
+  reset() {
+    this.history.clear();
+    this.ackTick = undefined;
+  }
+}
@@ -2,10 +2,53 @@ import { QuaternionSchema, Vector2Schema } from "./utils";
 
 import { z } from "zod";
 import { Vector3Schema } from "./utils";
+import { DRIFT_BOOST_TIERS } from "./vehicle";
+
+export const MAX_PLAYER_NAME_LENGTH = 20;
+
+/** Car colors offered in the profile step, multiplied with the car body texture */
+export const CAR_COLORS = [
+  "#ffffff",
+  "#ff4d6d",
+  "#ff9f1c",
+  "#ffe66d",
+  "#4ade80",
+  "#22d3ee",
+  "#6366f1",
+  "#c084fc",
+  "#3f3f46",
+] as const;
+
+export const PlayerNameSchema = z.string().trim().min(1).max(MAX_PLAYER_NAME_LENGTH);
+
+export const CarColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i);
+
+/** A single emoji shown next to the name, empty for none */
+export const PlayerEmojiSchema = z.union([z.literal(""), z.string().emoji().max(16)]);
+
+const DriftTierSchema = z.number().int().min(0).max(DRIFT_BOOST_TIERS.length);
+
+/** Drift mini-turbo state, drives the sparks of remote cars */
+export const TurboSchema = z.object({
+  /** Tier charged by the current drift, 0 when not drifting or not charged yet */
+  charge: DriftTierSchema,
+  /** Tier of the running boost, 0 when not boosting */
+  boost: DriftTierSchema,
+});
+
+export type TurboType = z.infer<typeof TurboSchema>;
 
 // Player data schemas
-export const PresenceSchema = z.object({
-  name: z.string(),
+export const ProfileSchema = z.object({
+  name: PlayerNameSchema,
+  /** Car body color, #rrggbb */
+  color: CarColorSchema,
+  emoji: PlayerEmojiSchema,
+});
+
+export type ProfileType = z.infer<typeof ProfileSchema>;
+
+export const PresenceSchema = ProfileSchema.extend({
   /** Player position */
   pos: Vector3Schema,
   /** Movement on eachframe */
@@ -14,8 +57,11 @@ export const PresenceSchema = z.object({
   rot: QuaternionSchema,
   /** Wheel rotation */
   wheel: Vector2Schema,
-  /** Timestamp of the update frame */
-  timestamp: z.number()
+  /** Server time of the update frame, in ms */
+  timestamp: z.number(),
+  /** AI opponent hosted by another player's client, set when joining */
+  bot: z.boolean().optional(),
+  turbo: TurboSchema.optional(),
 });
 
 export type PresenceType = z.infer<typeof PresenceSchema>;
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+export const RacePhaseSchema = z.enum(["lobby", "countdown", "racing", "finished"]);
+
+export type RacePhase = z.infer<typeof RacePhaseSchema>;
+
+// Race progress of a single player, computed by the server
+export const RacerProgressSchema = z.object({
+  /** Lap currently being driven, 0 before crossing the start line */
+  lap: z.number(),
+  /** Index of the next checkpoint the racer has to cross */
+  nextCheckpoint: z.number(),
+  /** Best lap time in ms */
+  bestLap: z.number().nullable(),
+  /** Total race time in ms, set once the racer finished */
+  finishTime: z.number().nullable(),
+});
+
+export type RacerProgressType = z.infer<typeof RacerProgressSchema>;
+
+export const RaceStateSchema = z.object({
+  phase: RacePhaseSchema,
+  totalLaps: z.number(),
+  /** Server time when the countdown ends and the race starts */
+  startsAt: z.number().nullable(),
+  /** Server time when the race will be closed, set after the first finish */
+  endsAt: z.number().nullable(),
+  /** Server time when this state was sent */
+  serverTime: z.number(),
+  racers: z.record(z.string(), RacerProgressSchema),
+});
+
+export type RaceStateType = z.infer<typeof RaceStateSchema>;
+
+export const RaceResultSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** Final position, 1 based */
+  position: z.number(),
+  /** Completed laps */
+  laps: z.number(),
+  /** Total race time in ms, null if the racer did not finish */
+  totalTime: z.number().nullable(),
+  bestLap: z.number().nullable(),
+});
+
+export type RaceResultType = z.infer<typeof RaceResultSchema>;
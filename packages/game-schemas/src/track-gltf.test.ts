@@ -0,0 +1,74 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { describe, expect, it } from "vitest";
+import { isSameTrackLayout, parseTrackDefinition } from "./track";
+import { getGltfTrackNodes, type GltfDocument } from "./track-gltf";
+import { MIAMI_TRACK } from "./tracks";
+
+/** Rotation of a quarter turn around the Y axis */
+const QUARTER_TURN = [0, Math.SQRT1_2, 0, Math.SQRT1_2];
+
+function readGlbJson(path: string): GltfDocument {
+  const buffer = readFileSync(path);
+  const chunkLength = buffer.readUInt32LE(12);
+  return JSON.parse(buffer.toString("utf8", 20, 20 + chunkLength));
+}
+
+describe("getGltfTrackNodes", () => {
+  it("composes the transforms of the parents", () => {
+    const nodes = getGltfTrackNodes({
+      scenes: [{ nodes: [0] }],
+      nodes: [
+        { name: "markers", children: [1], translation: [10, 0, 0], rotation: QUARTER_TURN, scale: [2, 2, 2] },
+        { name: "checkpoint-0", translation: [1, 0, 0], scale: [1.5, 1, 1] },
+      ],
+    });
+
+    expect(nodes).toHaveLength(1);
+    const [checkpoint] = nodes;
+    expect(checkpoint.name).toBe("checkpoint-0");
+    expect(checkpoint.position.x).toBeCloseTo(10);
+    expect(checkpoint.position.z).toBeCloseTo(-2);
+    expect(checkpoint.quaternion.y).toBeCloseTo(Math.SQRT1_2);
+    expect(checkpoint.scale).toEqual({ x: 3, y: 2, z: 2 });
+  });
+
+  it("reads a transform given as a matrix", () => {
+    const [node] = getGltfTrackNodes({
+      scenes: [{ nodes: [0] }],
+      // quarter turn around Y, scaled by 2, at (1, 2, 3)
+      nodes: [{ name: "start-line", matrix: [0, 0, -2, 0, 0, 2, 0, 0, 2, 0, 0, 0, 1, 2, 3, 1] }],
+    });
+
+    expect(node.position).toEqual({ x: 1, y: 2, z: 3 });
+    expect(node.quaternion.y).toBeCloseTo(Math.SQRT1_2);
+    expect(node.quaternion.w).toBeCloseTo(Math.SQRT1_2);
+    expect(node.scale).toEqual({ x: 2, y: 2, z: 2 });
+  });
+});
+
+describe("parseTrackDefinition", () => {
+  it("reads the bounds from their cube empty", () => {
+    const definition = parseTrackDefinition(
+      "test",
+      getGltfTrackNodes({
+        scenes: [{ nodes: [0, 1, 2] }],
+        nodes: [
+          { name: "start-line" },
+          { name: "spawn-0" },
+          { name: "bounds", translation: [1, 0, -1], scale: [10, 2, 5] },
+        ],
+      })
+    );
+
+    expect(definition?.bounds).toEqual({ min: { x: -9, y: -2, z: -6 }, max: { x: 11, y: 2, z: 4 } });
+  });
+
+  it("matches the miami definition to the markers of its GLB", () => {
+    const gltf = readGlbJson(resolve(__dirname, "../../../apps/game-front/public/game-track.glb"));
+    const definition = parseTrackDefinition(MIAMI_TRACK.id, getGltfTrackNodes(gltf));
+
+    expect(definition).not.toBeNull();
+    expect(isSameTrackLayout(definition!, MIAMI_TRACK)).toBe(true);
+  });
+});
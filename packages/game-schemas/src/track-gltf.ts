@@ -0,0 +1,127 @@
+/**
+ * Reads the track nodes out of a glTF document
+ * Plain math on the glTF JSON, so the extract script and the client, which
+ * hands over the JSON its loader parsed, get the same world transforms.
+ */
+
+import { isTrackNodeName, type TrackNode } from "./track";
+
+type Vector3 = TrackNode["position"];
+type Quaternion = TrackNode["quaternion"];
+
+interface Transform {
+  position: Vector3;
+  quaternion: Quaternion;
+  scale: Vector3;
+}
+
+/** The parts of a glTF document the track nodes are read from */
+export interface GltfDocument {
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: {
+    name?: string;
+    children?: number[];
+    matrix?: number[];
+    translation?: number[];
+    rotation?: number[];
+    scale?: number[];
+  }[];
+}
+
+function multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+  return {
+    x: a.w * b.x + a.x * b.w + a.y * b.z - a.z * b.y,
+    y: a.w * b.y - a.x * b.z + a.y * b.w + a.z * b.x,
+    z: a.w * b.z + a.x * b.y - a.y * b.x + a.z * b.w,
+    w: a.w * b.w - a.x * b.x - a.y * b.y - a.z * b.z,
+  };
+}
+
+function rotateVector(q: Quaternion, v: Vector3): Vector3 {
+  const conjugate = { x: -q.x, y: -q.y, z: -q.z, w: q.w };
+  const p = multiplyQuaternions(multiplyQuaternions(q, { ...v, w: 0 }), conjugate);
+  return { x: p.x, y: p.y, z: p.z };
+}
+
+/** Column major 4x4 matrix to translation, rotation and scale, without shear */
+function decomposeMatrix(m: number[]): Transform {
+  const scale = {
+    x: Math.hypot(m[0], m[1], m[2]),
+    y: Math.hypot(m[4], m[5], m[6]),
+    z: Math.hypot(m[8], m[9], m[10]),
+  };
+  const r00 = m[0] / scale.x, r10 = m[1] / scale.x, r20 = m[2] / scale.x;
+  const r01 = m[4] / scale.y, r11 = m[5] / scale.y, r21 = m[6] / scale.y;
+  const r02 = m[8] / scale.z, r12 = m[9] / scale.z, r22 = m[10] / scale.z;
+
+  let quaternion: Quaternion;
+  const trace = r00 + r11 + r22;
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    quaternion = { x: (r21 - r12) * s, y: (r02 - r20) * s, z: (r10 - r01) * s, w: 0.25 / s };
+  } else if (r00 > r11 && r00 > r22) {
+    const s = 2 * Math.sqrt(1 + r00 - r11 - r22);
+    quaternion = { x: 0.25 * s, y: (r01 + r10) / s, z: (r02 + r20) / s, w: (r21 - r12) / s };
+  } else if (r11 > r22) {
+    const s = 2 * Math.sqrt(1 + r11 - r00 - r22);
+    quaternion = { x: (r01 + r10) / s, y: 0.25 * s, z: (r12 + r21) / s, w: (r02 - r20) / s };
+  } else {
+    const s = 2 * Math.sqrt(1 + r22 - r00 - r11);
+    quaternion = { x: (r02 + r20) / s, y: (r12 + r21) / s, z: 0.25 * s, w: (r10 - r01) / s };
+  }
+
+  return { position: { x: m[12], y: m[13], z: m[14] }, quaternion, scale };
+}
+
+function getLocalTransform(node: NonNullable<GltfDocument["nodes"]>[number]): Transform {
+  if (node.matrix) return decomposeMatrix(node.matrix);
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [qx, qy, qz, qw] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  return {
+    position: { x: tx, y: ty, z: tz },
+    quaternion: { x: qx, y: qy, z: qz, w: qw },
+    scale: { x: sx, y: sy, z: sz },
+  };
+}
+
+/** World transforms of the track nodes of the default scene */
+export function getGltfTrackNodes(gltf: GltfDocument): TrackNode[] {
+  const nodes: TrackNode[] = [];
+  const visit = (index: number, parent: Transform) => {
+    const node = gltf.nodes?.[index];
+    if (!node) return;
+
+    const local = getLocalTransform(node);
+    const offset = rotateVector(parent.quaternion, {
+      x: local.position.x * parent.scale.x,
+      y: local.position.y * parent.scale.y,
+      z: local.position.z * parent.scale.z,
+    });
+    const world: Transform = {
+      position: {
+        x: parent.position.x + offset.x,
+        y: parent.position.y + offset.y,
+        z: parent.position.z + offset.z,
+      },
+      quaternion: multiplyQuaternions(parent.quaternion, local.quaternion),
+      scale: {
+        x: parent.scale.x * local.scale.x,
+        y: parent.scale.y * local.scale.y,
+        z: parent.scale.z * local.scale.z,
+      },
+    };
+
+    if (node.name && isTrackNodeName(node.name)) nodes.push({ name: node.name, ...world });
+    for (const child of node.children ?? []) visit(child, world);
+  };
+
+  const root: Transform = {
+    position: { x: 0, y: 0, z: 0 },
+    quaternion: { x: 0, y: 0, z: 0, w: 1 },
+    scale: { x: 1, y: 1, z: 1 },
+  };
+  for (const index of gltf.scenes?.[gltf.scene ?? 0]?.nodes ?? []) visit(index, root);
+  return nodes;
+}
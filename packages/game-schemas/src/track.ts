@@ -0,0 +1,195 @@
+/**
+ * Track definitions describe the gameplay data of a track
+ * They are extracted from named nodes in the track GLB:
+ * - `start-line`: start/finish gate
+ * - `checkpoint-0..N`: gates that have to be crossed in order
+ * - `spawn-0..N`: spawn grid slots
+ * - `bounds`: optional cube empty enclosing the area cars can drive in
+ *
+ * Gates face their local -Z axis (the driving direction of a car) and are
+ * 2 * scale.x wide, so an empty with display size 1 spans its local X axis.
+ * The bounds are axis aligned, their rotation is ignored.
+ */
+
+import { z } from "zod";
+import { QuaternionSchema, Vector3Schema } from "./utils";
+
+export const TrackGateSchema = z.object({
+  /** Center of the gate */
+  position: Vector3Schema,
+  /** Normalized driving direction through the gate, on the XZ plane */
+  forward: Vector3Schema,
+  /** Total width of the gate */
+  width: z.number().positive(),
+});
+
+export type TrackGateType = z.infer<typeof TrackGateSchema>;
+
+export const TrackSpawnSchema = z.object({
+  position: Vector3Schema,
+  rotation: QuaternionSchema,
+});
+
+export type TrackSpawnType = z.infer<typeof TrackSpawnSchema>;
+
+export const TrackBoundsSchema = z.object({
+  min: Vector3Schema,
+  max: Vector3Schema,
+});
+
+export type TrackBoundsType = z.infer<typeof TrackBoundsSchema>;
+
+export const TrackDefinitionSchema = z.object({
+  id: z.string(),
+  startLine: TrackGateSchema,
+  checkpoints: z.array(TrackGateSchema),
+  spawns: z.array(TrackSpawnSchema).min(1),
+  /** Area cars can drive in, not checked when missing */
+  bounds: TrackBoundsSchema.optional(),
+});
+
+export type TrackDefinitionType = z.infer<typeof TrackDefinitionSchema>;
+
+/** Position on the XZ plane, height is ignored for gates */
+export interface Vector2D {
+  x: number;
+  z: number;
+}
+
+/** Transform of a node in the track scene, in world space */
+export interface TrackNode {
+  name: string;
+  position: z.infer<typeof Vector3Schema>;
+  quaternion: z.infer<typeof QuaternionSchema>;
+  scale: z.infer<typeof Vector3Schema>;
+}
+
+export const TRACK_NODE_NAMES = {
+  startLine: /^start-line$/,
+  checkpoint: /^checkpoint-(\d+)$/,
+  spawn: /^spawn-(\d+)$/,
+  bounds: /^bounds$/,
+} as const;
+
+export function isTrackNodeName(name: string) {
+  return Object.values(TRACK_NODE_NAMES).some((pattern) => pattern.test(name));
+}
+
+function nodeToGate(node: TrackNode): TrackGateType {
+  const { x, y, z, w } = node.quaternion;
+  // local -Z axis rotated by the node quaternion, flattened to XZ
+  const fx = -2 * (x * z + w * y);
+  const fz = -(1 - 2 * (x * x + y * y));
+  const length = Math.hypot(fx, fz) || 1;
+
+  return {
+    position: { ...node.position },
+    forward: { x: fx / length, y: 0, z: fz / length },
+    width: Math.abs(node.scale.x) * 2,
+  };
+}
+
+function nodeToBounds(node: TrackNode): TrackBoundsType {
+  const { position, scale } = node;
+  const half = { x: Math.abs(scale.x), y: Math.abs(scale.y), z: Math.abs(scale.z) };
+  return {
+    min: { x: position.x - half.x, y: position.y - half.y, z: position.z - half.z },
+    max: { x: position.x + half.x, y: position.y + half.y, z: position.z + half.z },
+  };
+}
+
+function sortByIndex(nodes: TrackNode[], pattern: RegExp) {
+  return nodes
+    .map((node) => ({ node, match: pattern.exec(node.name) }))
+    .filter((entry) => entry.match !== null)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+    .map((entry) => entry.node);
+}
+
+/**
+ * Builds a track definition from the named nodes of a track scene
+ * Returns null if the scene doesn't follow the naming convention
+ */
+export function parseTrackDefinition(id: string, nodes: TrackNode[]): TrackDefinitionType | null {
+  const startLine = nodes.find((node) => TRACK_NODE_NAMES.startLine.test(node.name));
+  if (!startLine) return null;
+  const bounds = nodes.find((node) => TRACK_NODE_NAMES.bounds.test(node.name));
+
+  const result = TrackDefinitionSchema.safeParse({
+    id,
+    startLine: nodeToGate(startLine),
+    checkpoints: sortByIndex(nodes, TRACK_NODE_NAMES.checkpoint).map(nodeToGate),
+    spawns: sortByIndex(nodes, TRACK_NODE_NAMES.spawn).map((node) => ({
+      position: { ...node.position },
+      rotation: { ...node.quaternion },
+    })),
+    bounds: bounds ? nodeToBounds(bounds) : undefined,
+  });
+
+  return result.success ? result.data : null;
+}
+
+type Vector = Record<string, number>;
+
+function isSameVector(a: Vector, b: Vector, epsilon: number) {
+  return Object.keys(a).every((key) => Math.abs(a[key] - b[key]) <= epsilon);
+}
+
+function isSameGate(a: TrackGateType, b: TrackGateType, epsilon: number) {
+  return (
+    isSameVector(a.position, b.position, epsilon) &&
+    isSameVector(a.forward, b.forward, epsilon) &&
+    Math.abs(a.width - b.width) <= epsilon
+  );
+}
+
+/** Compares the gates, spawns and bounds of two definitions */
+export function isSameTrackLayout(a: TrackDefinitionType, b: TrackDefinitionType, epsilon = 1e-3) {
+  const sameBounds =
+    a.bounds && b.bounds
+      ? isSameVector(a.bounds.min, b.bounds.min, epsilon) && isSameVector(a.bounds.max, b.bounds.max, epsilon)
+      : a.bounds === b.bounds;
+  return (
+    sameBounds &&
+    isSameGate(a.startLine, b.startLine, epsilon) &&
+    a.checkpoints.length === b.checkpoints.length &&
+    a.checkpoints.every((gate, index) => isSameGate(gate, b.checkpoints[index], epsilon)) &&
+    a.spawns.length === b.spawns.length &&
+    a.spawns.every(
+      (spawn, index) =>
+        isSameVector(spawn.position, b.spawns[index].position, epsilon) &&
+        isSameVector(spawn.rotation, b.spawns[index].rotation, epsilon)
+    )
+  );
+}
+
+/** All gates in driving order, gate 0 is the start/finish line */
+export function getTrackGates(track: TrackDefinitionType): TrackGateType[] {
+  return [track.startLine, ...track.checkpoints];
+}
+
+/**
+ * Returns where along prev -> current the gate was crossed (0..1),
+ * or null if the segment didn't cross it in the driving direction
+ */
+export function crossGate(
+  gate: TrackGateType,
+  prev: Vector2D,
+  current: Vector2D
+): number | null {
+  const { position, forward } = gate;
+  const distPrev = (prev.x - position.x) * forward.x + (prev.z - position.z) * forward.z;
+  const distCurrent = (current.x - position.x) * forward.x + (current.z - position.z) * forward.z;
+
+  if (!(distPrev < 0 && distCurrent >= 0)) return null;
+
+  const t = distPrev / (distPrev - distCurrent);
+  const hitX = prev.x + (current.x - prev.x) * t;
+  const hitZ = prev.z + (current.z - prev.z) * t;
+
+  // distance to the gate center, perpendicular to the driving direction
+  const lateral = (hitX - position.x) * -forward.z + (hitZ - position.z) * forward.x;
+  if (Math.abs(lateral) > gate.width / 2) return null;
+
+  return t;
+}
@@ -0,0 +1,19 @@
+/**
+ * Built-in track definitions, shared by the client and the server
+ * Each one is a JSON file extracted from the marker nodes of its GLB with
+ * `pnpm run extract-track`, see scripts/extract-track.mjs
+ */
+
+import { TrackDefinitionSchema, type TrackDefinitionType } from "./track";
+import miamiTrack from "./tracks/miami.json";
+
+export const MIAMI_TRACK: TrackDefinitionType = TrackDefinitionSchema.parse(miamiTrack);
+
+export const TRACKS: Record<string, TrackDefinitionType> = {
+  [MIAMI_TRACK.id]: MIAMI_TRACK,
+};
+
+/** Every room races on the miami track unless a track with its id exists */
+export function getTrackDefinition(id: string): TrackDefinitionType {
+  return TRACKS[id] ?? MIAMI_TRACK;
+}
@@ -6,12 +6,42 @@
 import { z } from "zod";
 import { PresenceSchema } from "./presence";
 
+/** Server bookkeeping used to validate presence updates */
+export const PresenceValidationSchema = z.object({
+  /** Server time of the last accepted update */
+  lastUpdateAt: z.number(),
+  /** Server time of the last update-presence message, accepted or not */
+  lastMessageAt: z.number(),
+  /** Rate limiter tokens left */
+  tokens: z.number(),
+  lastProfileChangeAt: z.number(),
+  lastCorrectionAt: z.number(),
+  /** Drift boost as seen by the server, the reported turbo is capped to it */
+  turbo: z.object({
+    /** Server time the current drift was first reported charging, null when not charging */
+    chargeStartedAt: z.number().nullable(),
+    /** Highest tier the current drift could have charged */
+    charged: z.number(),
+    /** Tier of the running boost, 0 when not boosting */
+    boost: z.number(),
+    boostEndsAt: z.number(),
+  }),
+  /** Number of violations per kind since the connection opened */
+  violations: z.record(z.string(), z.number()),
+})
+
+export type PresenceValidationType = z.infer<typeof PresenceValidationSchema>;
 
 export const UserSchema = z.object({
   id: z.string(),
-  shouldSyncPresence: z.boolean(),
-  shouldSyncMovement: z.boolean(),
-  presence: PresenceSchema
+  /** Incremented on every presence update, viewers compare it with the last version they got */
+  version: z.number(),
+  presence: PresenceSchema,
+  /** Negotiated binary presence protocol version, JSON is used when missing */
+  protocol: z.number().optional(),
+  validation: PresenceValidationSchema,
+  /** Token the player can resume with after a reconnection, AI opponents don't get one */
+  session: z.string().optional(),
 })
 
 export type UserType = z.infer<typeof UserSchema>;
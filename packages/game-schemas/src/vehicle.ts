@@ -0,0 +1,54 @@
+/**
+ * Arcade vehicle tuning
+ * Shared by the client physics and the server plausibility checks
+ */
+
+export const VEHICLE_PHYSICS = {
+  maxForwardSpeed: 8,
+  maxReverseSpeed: -4,
+  /** Impulse applied on every physics step per unit of speed */
+  impulseScale: 5,
+  /** Horizontal velocity removed on every physics step, as an impulse factor */
+  damping: 1.5,
+} as const;
+
+/** Horizontal velocity where the driving impulse and the damping cancel out, in units/s */
+export const VEHICLE_MAX_VELOCITY =
+  (VEHICLE_PHYSICS.maxForwardSpeed * VEHICLE_PHYSICS.impulseScale) / VEHICLE_PHYSICS.damping;
+
+/**
+ * Drift mini-turbo, longer drifts charge higher tiers
+ * Releasing the drift boosts the car over its max speed for a while
+ */
+export const DRIFT_BOOST_TIERS = [
+  { chargeMs: 700, speed: 1.15, durationMs: 500 },
+  { chargeMs: 1400, speed: 1.25, durationMs: 900 },
+  { chargeMs: 2200, speed: 1.35, durationMs: 1300 },
+] as const;
+
+/** Highest tier reached after drifting for `chargeMs`, 0 for none */
+export function getDriftTier(chargeMs: number) {
+  let tier = 0;
+  DRIFT_BOOST_TIERS.forEach((boost, index) => {
+    if (chargeMs >= boost.chargeMs) tier = index + 1;
+  });
+  return tier;
+}
+
+/**
+ * Car to car bumps
+ * Clients report contacts, the server checks them and picks the impulse
+ */
+export const VEHICLE_COLLISION = {
+  /** Radius of the car ball collider */
+  radius: 0.1,
+  /** Impulse per unit/s of closing speed */
+  impulseScale: 0.5,
+  /** Impulse of a bump between cars that barely move */
+  minImpulse: 1,
+  maxImpulse: 8,
+  /** Driving speed kept after a bump */
+  speedFactor: 0.5,
+  /** Minimum time between two bumps of the same pair of cars */
+  cooldownMs: 500,
+} as const;
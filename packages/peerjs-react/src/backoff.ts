@@ -0,0 +1,48 @@
+export type ReconnectOptions = {
+  /** Attempts before giving up, Infinity keeps retrying */
+  maxAttempts?: number
+  /** Delay of the first attempt, doubled on every following one */
+  minDelayMs?: number
+  maxDelayMs?: number
+  /** Time a peer connection may take to open before it's retried */
+  connectTimeoutMs?: number
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  maxAttempts: Infinity,
+  minDelayMs: 500,
+  maxDelayMs: 10_000,
+  connectTimeoutMs: 10_000,
+}
+
+/** Schedules retries with an exponential backoff */
+export class Backoff {
+  attempt = 0
+  private timer?: ReturnType<typeof setTimeout>
+
+  constructor(private options: Required<ReconnectOptions>) {}
+
+  /** Schedules the next attempt, returns its delay or null when out of attempts */
+  schedule(callback: () => void): number | null {
+    if (this.attempt >= this.options.maxAttempts) return null
+
+    this.cancel()
+    this.attempt++
+    const delayMs = Math.min(this.options.maxDelayMs, this.options.minDelayMs * 2 ** (this.attempt - 1))
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      callback()
+    }, delayMs)
+    return delayMs
+  }
+
+  cancel() {
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  reset() {
+    this.cancel()
+    this.attempt = 0
+  }
+}
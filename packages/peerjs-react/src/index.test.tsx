@@ -0,0 +1,183 @@
+// @vitest-environment jsdom
+import { renderHook } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest'
+import { z } from 'zod'
+import { createPeerParty } from './index'
+import { receiveConnection } from './test-utils'
+
+vi.mock('peerjs', () => import('./test-utils').then(({ FakePeer }) => ({ default: FakePeer })))
+
+type TestMessages = {
+  steer: number
+  brake: boolean
+}
+
+function setup() {
+  const party = createPeerParty<TestMessages>({ reconnect: false, heartbeat: false })
+  const messageListeners = (party.instance as unknown as { messageListeners: Map<string, Set<unknown>> }).messageListeners
+  const connect = (peerId: string) => receiveConnection(party.instance.instance, peerId)
+
+  return { ...party, messageListeners, connect }
+}
+
+describe('useOnMessage', () => {
+  let party: ReturnType<typeof setup>
+
+  beforeEach(() => {
+    party = setup()
+  })
+
+  afterEach(() => {
+    party.instance.destroy()
+  })
+
+  it('removes its listener on unmount', () => {
+    const { useOnMessage, messageListeners } = party
+
+    for (let i = 0; i < 5; i++) {
+      const steer = renderHook(() => useOnMessage('steer', () => {}))
+      const brake = renderHook(() => useOnMessage('brake', () => {}))
+      expect(messageListeners.get('steer')?.size).toBe(1)
+      expect(messageListeners.get('brake')?.size).toBe(1)
+
+      steer.unmount()
+      brake.unmount()
+      expect(messageListeners.size).toBe(0)
+    }
+  })
+
+  it('moves its listener when the type changes', () => {
+    const { useOnMessage, messageListeners } = party
+
+    const { rerender, unmount } = renderHook(({ type }) => useOnMessage(type, () => {}), {
+      initialProps: { type: 'steer' as keyof TestMessages },
+    })
+    rerender({ type: 'brake' })
+    expect([...messageListeners.keys()]).toEqual(['brake'])
+
+    unmount()
+    expect(messageListeners.size).toBe(0)
+  })
+
+  it('only runs the listeners of the message type', () => {
+    const { useOnMessage, connect } = party
+    const onSteer = vi.fn()
+    const onBrake = vi.fn()
+    renderHook(() => useOnMessage('steer', onSteer))
+    const brake = renderHook(() => useOnMessage('brake', onBrake))
+
+    const phone = connect('phone')
+    phone.emit('data', { type: 'steer', data: 0.5 })
+    expect(onSteer).toHaveBeenCalledExactlyOnceWith({ type: 'steer', data: 0.5, fromId: 'phone' })
+    expect(onBrake).not.toHaveBeenCalled()
+
+    phone.emit('data', { type: 'brake', data: true })
+    expect(onBrake).toHaveBeenCalledExactlyOnceWith({ type: 'brake', data: true, fromId: 'phone' })
+    expect(onSteer).toHaveBeenCalledTimes(1)
+
+    brake.unmount()
+    phone.emit('data', { type: 'brake', data: false })
+    expect(onBrake).toHaveBeenCalledTimes(1)
+  })
+
+  it('calls the latest callback without listening again', () => {
+    const { useOnMessage, messageListeners, connect } = party
+    const first = vi.fn()
+    const second = vi.fn()
+
+    const { rerender } = renderHook(({ callback }) => useOnMessage('steer', callback), {
+      initialProps: { callback: first },
+    })
+    const [listener] = messageListeners.get('steer')!
+    rerender({ callback: second })
+    expect([...messageListeners.get('steer')!]).toEqual([listener])
+
+    connect('phone').emit('data', { type: 'steer', data: 1 })
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledOnce()
+  })
+})
+
+describe('schemas', () => {
+  const schemas = {
+    steer: z.number().min(-1).max(1),
+    brake: z.boolean(),
+  }
+  const createSchemaParty = () => createPeerParty({ schemas, reconnect: false, heartbeat: false })
+  let party: ReturnType<typeof createSchemaParty>
+
+  beforeEach(() => {
+    party = createSchemaParty()
+  })
+
+  afterEach(() => {
+    party.instance.destroy()
+  })
+
+  it('infers the message types from the schemas', () => {
+    const { useOnMessage, useSendMessage } = party
+
+    renderHook(() => {
+      useOnMessage('steer', (message) => {
+        expectTypeOf(message.type).toEqualTypeOf<'steer'>()
+        expectTypeOf(message.data).toEqualTypeOf<number>()
+      })
+      useOnMessage('brake', (message) => {
+        expectTypeOf(message.data).toEqualTypeOf<boolean>()
+      })
+      // @ts-expect-error no schema for this type
+      useOnMessage('horn', () => {})
+      // @ts-expect-error steer is a number
+      useSendMessage('steer', true)
+    })
+  })
+
+  it('gives the validated data to the listeners', () => {
+    const onSteer = vi.fn()
+    const onInvalid = vi.fn()
+    party.instance.on('invalid-message', onInvalid)
+    renderHook(() => party.useOnMessage('steer', onSteer))
+
+    receiveConnection(party.instance.instance, 'phone').emit('data', { type: 'steer', data: -0.5 })
+    expect(onSteer).toHaveBeenCalledExactlyOnceWith({ type: 'steer', data: -0.5, fromId: 'phone' })
+    expect(onInvalid).not.toHaveBeenCalled()
+  })
+
+  it('drops and reports a message failing its schema', () => {
+    const onSteer = vi.fn()
+    const onMessage = vi.fn()
+    const onInvalid = vi.fn()
+    party.instance.on('message', onMessage)
+    party.instance.on('invalid-message', onInvalid)
+    renderHook(() => party.useOnMessage('steer', onSteer))
+
+    const phone = receiveConnection(party.instance.instance, 'phone')
+    phone.emit('data', { type: 'steer', data: 2 })
+    phone.emit('data', { type: 'steer', data: 'left' })
+    expect(onSteer).not.toHaveBeenCalled()
+    expect(onMessage).not.toHaveBeenCalled()
+    expect(onInvalid).toHaveBeenCalledTimes(2)
+    expect(onInvalid).toHaveBeenNthCalledWith(1, { type: 'steer', data: 2 }, expect.any(z.ZodError), 'phone')
+  })
+
+  it('drops and reports a message that is not a { type, data } object', () => {
+    const onInvalid = vi.fn()
+    party.instance.on('invalid-message', onInvalid)
+
+    receiveConnection(party.instance.instance, 'phone').emit('data', 'steer')
+    expect(onInvalid).toHaveBeenCalledExactlyOnceWith('steer', expect.any(Error), 'phone')
+    expect(onInvalid.mock.calls[0][1].message).toBe('Message must be a { type, data } object')
+  })
+
+  it('drops and reports a message type without a schema', () => {
+    const onMessage = vi.fn()
+    const onInvalid = vi.fn()
+    party.instance.on('message', onMessage)
+    party.instance.on('invalid-message', onInvalid)
+
+    receiveConnection(party.instance.instance, 'phone').emit('data', { type: 'horn', data: true })
+    expect(onMessage).not.toHaveBeenCalled()
+    expect(onInvalid).toHaveBeenCalledExactlyOnceWith({ type: 'horn', data: true }, expect.any(Error), 'phone')
+    expect(onInvalid.mock.calls[0][1].message).toBe('Unknown message type "horn"')
+  })
+})
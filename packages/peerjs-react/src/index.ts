@@ -1,9 +1,12 @@
-import { PeerOptions } from "peerjs";
-import { MessagePayload, PeerParty, PeerPartyEvents } from "./peer-party";
+import { MessagePayload, PeerParty, PeerPartyEvents, PeerPartyOptions } from "./peer-party";
 import { useEffect, useRef } from "react";
 import EventEmitter from "eventemitter3";
 
-export function createPeerParty<PartyEvents extends Record<string, unknown>>(options?: PeerOptions) {
+/**
+ * Creates a peer and its typed hooks
+ * Pass `schemas` to validate inbound messages, the message types are inferred from them
+ */
+export function createPeerParty<PartyEvents extends Record<string, unknown>>(options?: PeerPartyOptions<PartyEvents>) {
   const instance = new PeerParty<PartyEvents>(options)
 
   function usePeer() {
@@ -17,13 +20,9 @@ export function createPeerParty<PartyEvents extends Record<string, unknown>>(opt
     const peerInstance = usePeer()
 
     useEffect(() => {
-      peerInstance.onMessage(type, (message) => {
+      return peerInstance.onMessage(type, (message) => {
         callbackRef.current(message)
       })
-
-      return () => {
-        peerInstance.removeMessageListener(callbackRef.current)
-      }
     }, [type, peerInstance])
   }
 
@@ -57,4 +56,5 @@ export function createPeerParty<PartyEvents extends Record<string, unknown>>(opt
   return { instance, useOnMessage, useSendMessage, usePeer, usePeerEvent }
 }
 
-export type { MessagePayload } from "./peer-party"
\ No newline at end of file
+export type { HeartbeatOptions, MessagePayload, MessageSchemas, PeerPartyOptions } from "./peer-party"
+export type { ReconnectOptions } from "./backoff"
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ReconnectOptions } from './backoff'
+import { HeartbeatOptions, PeerParty } from './peer-party'
+import { getFakePeer, receiveConnection } from './test-utils'
+
+vi.mock('peerjs', () => import('./test-utils').then(({ FakePeer }) => ({ default: FakePeer })))
+
+type TestMessages = {
+  steer: number
+}
+
+const RECONNECT: ReconnectOptions = { minDelayMs: 100, maxDelayMs: 400, connectTimeoutMs: 1_000 }
+const HEARTBEAT: HeartbeatOptions = { intervalMs: 1_000, timeoutMs: 3_000 }
+
+describe('PeerParty', () => {
+  let party: PeerParty<TestMessages>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    party.destroy()
+    vi.useRealTimers()
+  })
+
+  /** A party whose events are recorded in order */
+  function createParty(options: ConstructorParameters<typeof PeerParty<TestMessages>>[0]) {
+    party = new PeerParty<TestMessages>(options)
+    const events: unknown[][] = []
+    for (const type of ['open', 'reconnecting', 'reconnected', 'connection-closed', 'peer-latency'] as const) {
+      party.on(type, (...args: unknown[]) => events.push([type, ...args]))
+    }
+    return { peer: getFakePeer(party.instance), events }
+  }
+
+  describe('signalling server', () => {
+    it('reconnects with a delay doubling up to its cap', () => {
+      const { peer, events } = createParty({ reconnect: RECONNECT, heartbeat: false })
+      peer.emit('open', 'me')
+
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        peer.disconnected = true
+        peer.emit('disconnected')
+        const delayMs = Math.min(400, 100 * 2 ** (attempt - 1))
+        expect(events.at(-1)).toEqual(['reconnecting', attempt, delayMs])
+
+        vi.advanceTimersByTime(delayMs - 1)
+        expect(peer.reconnect).toHaveBeenCalledTimes(attempt - 1)
+        vi.advanceTimersByTime(1)
+        expect(peer.reconnect).toHaveBeenCalledTimes(attempt)
+      }
+
+      // back online, the next loss starts over from the first delay
+      peer.emit('open', 'me')
+      expect(events.at(-1)).toEqual(['reconnected'])
+      peer.disconnected = true
+      peer.emit('disconnected')
+      expect(events.at(-1)).toEqual(['reconnecting', 1, 100])
+    })
+
+    it('gives up after the last attempt', () => {
+      const { peer, events } = createParty({ reconnect: { ...RECONNECT, maxAttempts: 2 }, heartbeat: false })
+      peer.emit('open', 'me')
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        peer.disconnected = true
+        peer.emit('disconnected')
+        vi.runOnlyPendingTimers()
+      }
+      expect(events.filter(([type]) => type === 'reconnecting')).toHaveLength(2)
+      expect(peer.reconnect).toHaveBeenCalledTimes(2)
+    })
+
+    it("doesn't reconnect a peer that never opened", () => {
+      const { peer, events } = createParty({ reconnect: RECONNECT, heartbeat: false })
+      peer.disconnected = true
+      peer.emit('disconnected')
+
+      vi.runAllTimers()
+      expect(events).toEqual([])
+      expect(peer.reconnect).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('dialed peers', () => {
+    it('redials a peer that never answers after the open timeout', () => {
+      const { peer, events } = createParty({ reconnect: RECONNECT, heartbeat: false })
+      party.connectToPeer('phone')
+      const [silent] = peer.dialed
+
+      vi.advanceTimersByTime(999)
+      expect(silent.close).not.toHaveBeenCalled()
+      vi.advanceTimersByTime(1)
+      expect(silent.close).toHaveBeenCalled()
+      // it never opened, so it was never a connection of the party
+      expect(events).toEqual([['reconnecting', 1, 100, 'phone']])
+
+      vi.advanceTimersByTime(100)
+      const [, answered] = peer.dialed
+      answered.accept()
+      expect(events.at(-1)).toEqual(['reconnected', 'phone'])
+      expect(party.connections.phone).toBe(answered)
+
+      // the open timeout of an answered dial is cleared
+      vi.advanceTimersByTime(1_000)
+      expect(answered.close).not.toHaveBeenCalled()
+    })
+
+    it('emits connection-closed and redials when an open connection closes', () => {
+      const { peer, events } = createParty({ reconnect: RECONNECT, heartbeat: false })
+      party.connectToPeer('phone')
+      peer.dialed[0].accept()
+      expect(events).toEqual([])
+
+      peer.dialed[0].emit('close')
+      expect(events).toEqual([
+        ['connection-closed', 'phone'],
+        ['reconnecting', 1, 100, 'phone'],
+      ])
+      expect(party.connections.phone).toBeUndefined()
+
+      vi.advanceTimersByTime(100)
+      expect(peer.dialed).toHaveLength(2)
+    })
+
+    it('waits for the signalling server before dialing', () => {
+      const { peer, events } = createParty({ reconnect: RECONNECT, heartbeat: false })
+      peer.disconnected = true
+      party.connectToPeer('phone')
+      expect(peer.dialed).toHaveLength(0)
+      expect(events).toEqual([['reconnecting', 1, 100, 'phone']])
+
+      peer.disconnected = false
+      vi.advanceTimersByTime(100)
+      expect(peer.dialed).toHaveLength(1)
+    })
+  })
+
+  describe('heartbeat', () => {
+    it('measures the latency of the pongs', () => {
+      const { events } = createParty({ reconnect: false, heartbeat: HEARTBEAT })
+      const phone = receiveConnection(party.instance, 'phone')
+
+      vi.advanceTimersByTime(1_000)
+      expect(phone.send).toHaveBeenCalledExactlyOnceWith({ type: '__peer-party-ping', data: Date.now() })
+
+      const pingData = phone.send.mock.calls[0][0].data
+      vi.advanceTimersByTime(40)
+      phone.emit('data', { type: '__peer-party-pong', data: pingData })
+      expect(events).toEqual([['peer-latency', 'phone', 40]])
+      expect(party.latencies.phone).toBe(40)
+    })
+
+    it('answers the pings of other peers without giving them to the listeners', () => {
+      createParty({ reconnect: false, heartbeat: HEARTBEAT })
+      const onMessage = vi.fn()
+      party.on('message', onMessage)
+      const phone = receiveConnection(party.instance, 'phone')
+
+      phone.emit('data', { type: '__peer-party-ping', data: 1234 })
+      expect(phone.send).toHaveBeenCalledExactlyOnceWith({ type: '__peer-party-pong', data: 1234 })
+      expect(onMessage).not.toHaveBeenCalled()
+    })
+
+    it('drops a connection silent for longer than the timeout', () => {
+      const { events } = createParty({ reconnect: false, heartbeat: HEARTBEAT })
+      const phone = receiveConnection(party.instance, 'phone')
+
+      // any data keeps the connection alive
+      vi.advanceTimersByTime(1_500)
+      phone.emit('data', { type: 'steer', data: 0 })
+      vi.advanceTimersByTime(3_000)
+      expect(party.connections.phone).toBe(phone)
+
+      vi.advanceTimersByTime(1_000)
+      expect(phone.close).toHaveBeenCalled()
+      expect(party.connections.phone).toBeUndefined()
+      expect(events).toEqual([['connection-closed', 'phone']])
+    })
+  })
+})
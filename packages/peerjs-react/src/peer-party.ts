@@ -1,14 +1,26 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import Peer, { DataConnection, PeerOptions } from "peerjs";
 import { EventEmitter } from "eventemitter3";
+import type { ZodType, ZodTypeDef } from "zod";
+import { Backoff, DEFAULT_RECONNECT_OPTIONS, ReconnectOptions } from "./backoff";
 
 export type PeerPartyEvents = {
   'open': (id: string) => void
   'disconnected': () => void
   'close': () => void
   'connection': (connection: DataConnection) => void
+  /** A peer connection closed or stopped answering the heartbeat */
+  'connection-closed': (peerId: string) => void
   'message': (payload: MessagePayload) => void
+  /** A message that isn't a `{ type, data }` object or fails its schema, it's dropped */
+  'invalid-message': (payload: unknown, error: Error, fromId: string) => void
   'error': (error: Error) => void
+  /** A retry was scheduled, `peerId` is missing for the signalling server */
+  'reconnecting': (attempt: number, delayMs: number, peerId?: string) => void
+  /** Emitted instead of `open` once the signalling server is back, or when a peer connection reopens */
+  'reconnected': (peerId?: string) => void
+  /** Round trip time of the last heartbeat of a peer */
+  'peer-latency': (peerId: string, latencyMs: number) => void
 }
 
 export type MessageType<T = string, D = unknown> = {
@@ -20,77 +32,298 @@ export type MessagePayload<T = string, D = unknown> = MessageType<T, D> & {
   fromId: string
 }
 
+type MessageListener = (payload: MessagePayload<any, any>) => void
+
+/** Zod schema validating the data of each message type */
+export type MessageSchemas<PartyEvents extends Record<string, unknown>> = {
+  [T in keyof PartyEvents]: ZodType<PartyEvents[T], ZodTypeDef, unknown>
+}
+
+export type HeartbeatOptions = {
+  intervalMs?: number
+  /** Time without data after which a connection is considered lost */
+  timeoutMs?: number
+}
+
+export const DEFAULT_HEARTBEAT_OPTIONS: Required<HeartbeatOptions> = {
+  intervalMs: 2_000,
+  timeoutMs: 6_000,
+}
+
+export type PeerPartyOptions<PartyEvents extends Record<string, unknown>> = PeerOptions & {
+  /** Validates inbound messages at runtime, messages of other types are dropped */
+  schemas?: MessageSchemas<PartyEvents>
+  /** Retries the signalling server and the connections opened with `connectToPeer`, false to disable */
+  reconnect?: ReconnectOptions | false
+  /** Pings the connections to measure their latency and drop the dead ones, false to disable */
+  heartbeat?: HeartbeatOptions | false
+}
+
+/** Heartbeat messages, answered by the party and never given to the message listeners */
+const PING_MESSAGE = '__peer-party-ping'
+const PONG_MESSAGE = '__peer-party-pong'
+
 export class PeerParty<PartyEvents extends Record<string, unknown>> {
   instance: Peer
   id?: string
   isConnected?: boolean
   EE: EventEmitter<PeerPartyEvents>
   connections: Record<string, DataConnection> = {}
+  schemas?: MessageSchemas<PartyEvents>
+  /** Last heartbeat round trip of each connection */
+  latencies: Record<string, number> = {}
+
+  /** Message listeners by type, a message only runs the listeners of its type */
+  private messageListeners = new Map<keyof PartyEvents, Set<MessageListener>>()
 
-  constructor(options?: PeerOptions) {
+  private reconnectOptions: Required<ReconnectOptions> | null
+  private serverBackoff?: Backoff
+  /** Peers connected with `connectToPeer`, redialled when their connection is lost */
+  private dialedPeers: Record<string, Backoff> = {}
+  private lastSeen: Record<string, number> = {}
+  private heartbeatInterval?: ReturnType<typeof setInterval>
+  private destroyed = false
+
+  constructor({ schemas, reconnect, heartbeat, ...options }: PeerPartyOptions<PartyEvents> = {}) {
     this.EE = new EventEmitter()
+    this.schemas = schemas
+    this.reconnectOptions = reconnect === false ? null : { ...DEFAULT_RECONNECT_OPTIONS, ...reconnect }
+    if (this.reconnectOptions) {
+      this.serverBackoff = new Backoff(this.reconnectOptions)
+    }
 
-    this.instance = new Peer(options || {})
+    this.instance = new Peer(options)
     this.instance.on('open', (id) => {
       this.id = id
       this.isConnected = true
-      this.EE.emit('open', id)
+
+      const wasReconnecting = !!this.serverBackoff?.attempt
+      this.serverBackoff?.reset()
+      if (wasReconnecting) {
+        this.EE.emit('reconnected')
+      } else {
+        this.EE.emit('open', id)
+      }
     })
     this.instance.on('disconnected', () => {
       this.isConnected = false
       this.EE.emit('disconnected')
+      // a peer that never opened is destroyed by peerjs, it can't reconnect
+      if (this.id) this.reconnectToServer()
     })
     this.instance.on('close', () => {
       this.isConnected = false
+      this.serverBackoff?.cancel()
       this.EE.emit('close')
     })
     this.instance.on('connection', (connection) => {
       this.EE.emit('connection', connection)
-      this.connections[connection.peer] = connection
-
-      const onMessageCallback = (payload: unknown) => {
-        this.EE.emit('message', payload as any)
-      }
-      connection.on('data', onMessageCallback)
-      // handle connection close
-      connection.on('close', () => {
-        delete this.connections[connection.peer]
-      })
+      this.addConnection(connection)
     })
 
     this.instance.on('error', (error) => {
       this.EE.emit('error', error)
     })
+
+    if (heartbeat !== false) {
+      const { intervalMs, timeoutMs } = { ...DEFAULT_HEARTBEAT_OPTIONS, ...heartbeat }
+      this.heartbeatInterval = setInterval(() => this.sendHeartbeats(timeoutMs), intervalMs)
+    }
   }
 
   connectToPeer(peerId: string) {
+    if (this.reconnectOptions) {
+      this.dialedPeers[peerId] ??= new Backoff(this.reconnectOptions)
+    }
+    this.dial(peerId)
+  }
+
+  private dial(peerId: string) {
+    // peerjs can't open connections without the signalling server, wait for it
+    if (this.instance.disconnected) {
+      this.redial(peerId)
+      return
+    }
+
     const conn = this.instance.connect(peerId)
+    // a peer that doesn't answer never opens nor closes the connection
+    let openTimeout: ReturnType<typeof setTimeout> | undefined
+    if (this.reconnectOptions) {
+      openTimeout = setTimeout(() => {
+        this.removeConnection(conn)
+      }, this.reconnectOptions.connectTimeoutMs)
+    }
+
     conn.on('open', () => {
-      this.connections[peerId] = conn
+      clearTimeout(openTimeout)
+      this.addConnection(conn)
+
+      const backoff = this.dialedPeers[peerId]
+      if (backoff?.attempt) {
+        backoff.reset()
+        this.EE.emit('reconnected', peerId)
+      }
     })
     conn.on('error', (error) => {
       this.EE.emit('error', error)
     })
-    conn.on('close', () => {
+  }
+
+  /** Schedules the next dial of a peer whose connection was lost */
+  private redial(peerId: string) {
+    const backoff = this.dialedPeers[peerId]
+    if (!backoff || this.destroyed) return
+
+    const delayMs = backoff.schedule(() => this.dial(peerId))
+    if (delayMs === null) {
+      delete this.dialedPeers[peerId]
+      return
+    }
+    this.EE.emit('reconnecting', backoff.attempt, delayMs, peerId)
+  }
+
+  private reconnectToServer() {
+    if (!this.serverBackoff || this.destroyed) return
+
+    const delayMs = this.serverBackoff.schedule(() => {
+      if (this.instance.disconnected && !this.instance.destroyed) {
+        this.instance.reconnect()
+      }
+    })
+    if (delayMs !== null) {
+      this.EE.emit('reconnecting', this.serverBackoff.attempt, delayMs)
+    }
+  }
+
+  private addConnection(connection: DataConnection) {
+    const peerId = connection.peer
+    // a peer that reconnects replaces its previous connection
+    const previous = this.connections[peerId]
+    if (previous && previous !== connection) {
+      previous.removeAllListeners()
+      previous.close()
+    }
+
+    this.connections[peerId] = connection
+    this.lastSeen[peerId] = Date.now()
+
+    connection.on('data', (payload) => {
+      this.lastSeen[peerId] = Date.now()
+      if (this.handleHeartbeat(connection, payload)) return
+
+      const message = this.parseMessage(payload, peerId)
+      if (message) this.dispatchMessage(message)
+    })
+    // handle connection close
+    connection.on('close', () => {
+      this.removeConnection(connection)
+    })
+  }
+
+  private removeConnection(connection: DataConnection) {
+    const peerId = connection.peer
+    // closing emits 'close' again
+    connection.removeAllListeners()
+    connection.close()
+
+    if (this.connections[peerId] === connection) {
       delete this.connections[peerId]
+      delete this.lastSeen[peerId]
+      delete this.latencies[peerId]
+      this.EE.emit('connection-closed', peerId)
+    }
+    if (!this.connections[peerId]) {
+      this.redial(peerId)
+    }
+  }
+
+  /** Pings every connection and drops the ones silent for longer than the timeout */
+  private sendHeartbeats(timeoutMs: number) {
+    const now = Date.now()
+    Object.values(this.connections).forEach((connection) => {
+      if (now - this.lastSeen[connection.peer] > timeoutMs) {
+        this.removeConnection(connection)
+        return
+      }
+      if (connection.open) {
+        connection.send({ type: PING_MESSAGE, data: now })
+      }
     })
   }
 
+  /** Answers pings and measures the latency of pongs, returns true for heartbeat messages */
+  private handleHeartbeat(connection: DataConnection, payload: unknown) {
+    if (!payload || typeof payload !== 'object' || !('type' in payload)) return false
+
+    const { type, data } = payload as MessageType
+    if (type === PING_MESSAGE) {
+      connection.send({ type: PONG_MESSAGE, data })
+      return true
+    }
+    if (type === PONG_MESSAGE) {
+      const latencyMs = Date.now() - Number(data)
+      this.latencies[connection.peer] = latencyMs
+      this.EE.emit('peer-latency', connection.peer, latencyMs)
+      return true
+    }
+    return false
+  }
+
+  /** Checks the shape of an inbound message and validates its data against the schemas */
+  private parseMessage(payload: unknown, fromId: string): MessagePayload | null {
+    const valid = payload && typeof payload === 'object' && 'type' in payload && 'data' in payload
+    if (!valid) {
+      this.EE.emit('invalid-message', payload, new Error('Message must be a { type, data } object'), fromId)
+      return null
+    }
+
+    const { type, data } = payload as MessageType
+    if (!this.schemas) {
+      return { type, data, fromId }
+    }
+
+    const schema = this.schemas[type]
+    if (!schema) {
+      this.EE.emit('invalid-message', payload, new Error(`Unknown message type "${type}"`), fromId)
+      return null
+    }
+
+    const result = schema.safeParse(data)
+    if (!result.success) {
+      this.EE.emit('invalid-message', payload, result.error, fromId)
+      return null
+    }
+    return { type, data: result.data, fromId }
+  }
+
+  private dispatchMessage(message: MessagePayload) {
+    this.EE.emit('message', message)
+    this.messageListeners.get(message.type)?.forEach((listener) => listener(message))
+  }
+
+  /** Listens to the messages of a type, returns a function removing the listener */
   onMessage<T extends keyof PartyEvents>(type: T, callback: (payload: MessagePayload<T, PartyEvents[T]>) => void) {
-    this.EE.on('message', (payload) => {
-      const valid = payload && typeof payload === 'object' && 'type' in payload && 'data' in payload
-      if (!valid) return
+    let listeners = this.messageListeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.messageListeners.set(type, listeners)
+    }
+    listeners.add(callback)
 
-      const message = payload as unknown as MessagePayload<T, PartyEvents[T]>
-      if (message.type === type) {
-        callback(message)
+    return () => {
+      listeners.delete(callback)
+      if (listeners.size === 0 && this.messageListeners.get(type) === listeners) {
+        this.messageListeners.delete(type)
       }
-    })
+    }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
-  removeMessageListener(callback: Function) {
-    this.EE.off('message', callback as any)
+  /** Removes a callback given to `onMessage`, prefer the function it returns */
+  removeMessageListener<T extends keyof PartyEvents>(callback: (payload: MessagePayload<T, PartyEvents[T]>) => void) {
+    this.messageListeners.forEach((listeners, type) => {
+      listeners.delete(callback)
+      if (listeners.size === 0) this.messageListeners.delete(type)
+    })
   }
 
   sendMessageTo<T extends keyof PartyEvents, D = PartyEvents[T]>(peerId: string, type: T, data: D) {
@@ -98,12 +331,11 @@ export class PeerParty<PartyEvents extends Record<string, unknown>> {
   }
 
   sendMessage<T extends keyof PartyEvents, D = PartyEvents[T]>(type: T, data: D) {
-    if (!this.isConnected) {
-      return
-    }
-
+    // connections stay open while the signalling server reconnects
     Object.values(this.connections).forEach((connection) => {
-      connection.send({ type, data })
+      if (connection.open) {
+        connection.send({ type, data })
+      }
     })
   }
 
@@ -126,7 +358,13 @@ export class PeerParty<PartyEvents extends Record<string, unknown>> {
 
 
   destroy() {
+    this.destroyed = true
+    clearInterval(this.heartbeatInterval)
+    this.serverBackoff?.cancel()
+    Object.values(this.dialedPeers).forEach((backoff) => backoff.cancel())
+    this.dialedPeers = {}
     this.instance.destroy()
     this.EE.removeAllListeners()
+    this.messageListeners.clear()
   }
 }
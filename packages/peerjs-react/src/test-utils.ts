@@ -0,0 +1,60 @@
+import { EventEmitter } from 'eventemitter3'
+import type Peer from 'peerjs'
+import type { DataConnection } from 'peerjs'
+import { vi } from 'vitest'
+
+/** Data connection of a remote peer, the tests open it and send its data */
+export class FakeConnection extends EventEmitter {
+  open = false
+  send = vi.fn()
+  close = vi.fn(() => {
+    this.open = false
+  })
+
+  constructor(readonly peer: string) {
+    super()
+  }
+
+  /** Opens the connection like peerjs does once the remote peer answers */
+  accept() {
+    this.open = true
+    this.emit('open')
+  }
+}
+
+/**
+ * Peer that never reaches a signalling server, the tests emit its events
+ * Mock peerjs with it: `vi.mock('peerjs', () => import('./test-utils').then(({ FakePeer }) => ({ default: FakePeer })))`
+ */
+export class FakePeer extends EventEmitter {
+  disconnected = false
+  destroyed = false
+  /** Connections opened with `connect`, in order */
+  dialed: FakeConnection[] = []
+  reconnect = vi.fn(() => {
+    this.disconnected = false
+  })
+
+  connect(peerId: string) {
+    const connection = new FakeConnection(peerId)
+    this.dialed.push(connection)
+    return connection
+  }
+
+  destroy() {
+    this.destroyed = true
+  }
+}
+
+/** The fake behind the `instance` of a party */
+export function getFakePeer(peer: Peer) {
+  return peer as unknown as FakePeer
+}
+
+/** Hands over an open connection from a remote peer, like the signalling server does */
+export function receiveConnection(peer: Peer, peerId: string) {
+  const connection = new FakeConnection(peerId)
+  connection.open = true
+  getFakePeer(peer).emit('connection', connection as unknown as DataConnection)
+  return connection
+}
@@ -23,6 +23,6 @@ export default defineConfig({
     minify: true
   },
   plugins: [
-    dts()
+    dts({ tsconfigPath: './tsconfig.build.json' })
   ]
 }); 
\ No newline at end of file